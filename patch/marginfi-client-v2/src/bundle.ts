@@ -0,0 +1,253 @@
+import {
+  AddressLookupTableAccount,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { bs58 } from "@coral-xyz/anchor/dist/cjs/utils/bytes";
+import { sleep } from "@mrgnlabs/mrgn-common";
+import axios from "axios";
+import { ProcessTransactionError, ProcessTransactionErrorType } from "./errors";
+
+export const DEFAULT_BUNDLE_ENDPOINT = "https://mainnet.block-engine.jito.wtf/api/v1/bundles";
+
+// https://jito-foundation.gitbook.io/mev/mev-payment-and-distribution/on-chain-addresses
+export const JITO_TIP_ACCOUNTS = [
+  "96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5",
+  "HFqU5x63VTqvQss8hp11i4wVV8bD44PvwucfZ2bU7gRe",
+  "Cw8CFyM9FkoMi7K7Crf6HNQqf4uEMzpKw6QNghXLvLkY",
+  "ADaUMid9yfUytqMBgopwjb2DTLSokTSzL1zt6iGPaS49",
+  "DfXygSm4jCyNCybVYYK6DwvWqjKee8pbDmJGcLWNDXjh",
+  "ADuUkR4vqLUMWXxW9gh6D6L8pMSawimctcNZ5pGwDcEt",
+  "DttWaMuVvTiduZRnguLF7jNxTgiMBZ1hyAumKUiL2KRL",
+  "3AVi9Tg9Uo68tJfuvoKvqKNWKkC5wPdSSdeBnizKZ6jT",
+].map((address) => new PublicKey(address));
+
+export const MAX_BUNDLE_TRANSACTIONS = 5;
+const MAX_TRANSACTION_ACCOUNT_KEYS = 64;
+
+// ----------------------------------------------------------------------------
+// Client types
+// ----------------------------------------------------------------------------
+
+export enum BundleStatus {
+  Pending = "Pending",
+  Landed = "Landed",
+  Failed = "Failed",
+  Invalid = "Invalid",
+}
+
+export interface BundleStatusResult {
+  bundleId: string;
+  status: BundleStatus;
+  slot?: number;
+  signatures?: string[];
+}
+
+export interface JsonRpcResponse<T> {
+  jsonrpc: "2.0";
+  id: number | string;
+  result?: T;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+/** Entry of a `getBundleStatuses` response, for bundles that landed */
+export interface LandedBundleStatus {
+  bundle_id: string;
+  transactions: string[];
+  slot: number;
+  confirmation_status: string;
+  err: { Ok: null } | { Err: unknown } | null;
+}
+
+/** Entry of a `getInflightBundleStatuses` response */
+export interface InflightBundleStatus {
+  bundle_id: string;
+  status: BundleStatus;
+  landed_slot: number | null;
+}
+
+/**
+ * Minimal JSON-RPC transport, injectable so that bundle submission and status tracking can be mocked.
+ */
+export type JsonRpcPost = <T>(endpoint: string, payload: object) => Promise<JsonRpcResponse<T>>;
+
+export const axiosJsonRpcPost: JsonRpcPost = async <T>(endpoint: string, payload: object) => {
+  const response = await axios.post<JsonRpcResponse<T>>(endpoint, payload, {
+    headers: { "Content-Type": "application/json" },
+  });
+  return response.data;
+};
+
+let tipAccountIndex = 0;
+
+/**
+ * Round-robin over `tipAccounts`, the position is shared by all callers to spread write locks.
+ */
+export function nextJitoTipAccount(tipAccounts: PublicKey[] = JITO_TIP_ACCOUNTS): PublicKey {
+  if (tipAccounts.length === 0) throw Error("At least one tip account is required");
+  const tipAccount = tipAccounts[tipAccountIndex % tipAccounts.length];
+  tipAccountIndex += 1;
+  return tipAccount;
+}
+
+// ----------------------------------------------------------------------------
+// Bundle builder
+// ----------------------------------------------------------------------------
+
+/**
+ * Collects up to `MAX_BUNDLE_TRANSACTIONS` transactions for an atomic bundle, appends a tip transaction to the next tip
+ * account in rotation, and validates per-transaction size limits.
+ */
+export class JitoBundleBuilder {
+  private transactions: VersionedTransaction[] = [];
+
+  constructor(
+    readonly payer: PublicKey,
+    readonly tipLamports: number,
+    readonly tipAccounts: PublicKey[] = JITO_TIP_ACCOUNTS
+  ) {
+    if (tipLamports <= 0) throw Error("Jito bundle tip has not been set.");
+    if (tipAccounts.length === 0) throw Error("At least one tip account is required");
+  }
+
+  nextTipAccount(): PublicKey {
+    return nextJitoTipAccount(this.tipAccounts);
+  }
+
+  addTransaction(transaction: VersionedTransaction, addressLookupTables: AddressLookupTableAccount[] = []): this {
+    if (this.transactions.length >= MAX_BUNDLE_TRANSACTIONS - 1) {
+      throw Error(`A bundle holds at most ${MAX_BUNDLE_TRANSACTIONS} transactions, including the tip`);
+    }
+    checkTransactionSize(transaction, addressLookupTables);
+    this.transactions.push(transaction);
+    return this;
+  }
+
+  /**
+   * @returns The bundle transactions followed by an unsigned tip transaction paid by `payer`
+   */
+  build(): VersionedTransaction[] {
+    if (this.transactions.length === 0) throw Error("Cannot build an empty bundle");
+
+    const recentBlockhash = this.transactions[this.transactions.length - 1].message.recentBlockhash;
+    const tipTransaction = new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: this.payer,
+        recentBlockhash,
+        instructions: [
+          SystemProgram.transfer({
+            fromPubkey: this.payer,
+            toPubkey: this.nextTipAccount(),
+            lamports: this.tipLamports,
+          }),
+        ],
+      }).compileToV0Message()
+    );
+
+    return [...this.transactions, tipTransaction];
+  }
+}
+
+export function checkTransactionSize(
+  transaction: VersionedTransaction,
+  addressLookupTables: AddressLookupTableAccount[] = []
+) {
+  const totalSize = transaction.serialize().length;
+  const totalKeys = transaction.message.getAccountKeys({ addressLookupTableAccounts: addressLookupTables }).length;
+  if (totalSize > PACKET_DATA_SIZE || totalKeys >= MAX_TRANSACTION_ACCOUNT_KEYS) {
+    throw new ProcessTransactionError(
+      `Transaction too large (${totalSize} bytes, ${totalKeys} keys)`,
+      ProcessTransactionErrorType.TransactionBuildingError
+    );
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Bundle client
+// ----------------------------------------------------------------------------
+
+export class JitoBundleClient {
+  constructor(readonly endpoint: string = DEFAULT_BUNDLE_ENDPOINT, readonly post: JsonRpcPost = axiosJsonRpcPost) {}
+
+  /**
+   * Submit signed transactions as one atomic bundle.
+   *
+   * @returns Bundle id
+   */
+  async sendBundle(transactions: VersionedTransaction[]): Promise<string> {
+    const response = await this.post<string>(this.endpoint, {
+      jsonrpc: "2.0",
+      id: 1,
+      method: "sendBundle",
+      params: [transactions.map((tx) => bs58.encode(tx.serialize()))],
+    });
+    if (response.error || !response.result) throw Error(`Bundle rejected: ${JSON.stringify(response.error)}`);
+    return response.result;
+  }
+
+  async getBundleStatus(bundleId: string): Promise<BundleStatusResult> {
+    const landed = await this.post<{ value: (LandedBundleStatus | null)[] }>(this.endpoint, {
+      jsonrpc: "2.0",
+      id: 1,
+      method: "getBundleStatuses",
+      params: [[bundleId]],
+    });
+    if (landed.error) throw Error(`Failed to fetch bundle status: ${JSON.stringify(landed.error)}`);
+    const landedStatus = landed.result?.value?.[0];
+    if (landedStatus) {
+      return {
+        bundleId,
+        status: !landedStatus.err || "Ok" in landedStatus.err ? BundleStatus.Landed : BundleStatus.Failed,
+        slot: landedStatus.slot,
+        signatures: landedStatus.transactions,
+      };
+    }
+
+    const inflight = await this.post<{ value: (InflightBundleStatus | null)[] }>(this.endpoint, {
+      jsonrpc: "2.0",
+      id: 1,
+      method: "getInflightBundleStatuses",
+      params: [[bundleId]],
+    });
+    if (inflight.error) throw Error(`Failed to fetch bundle status: ${JSON.stringify(inflight.error)}`);
+    const inflightStatus = inflight.result?.value?.[0];
+    return {
+      bundleId,
+      status: inflightStatus?.status ?? BundleStatus.Pending,
+      slot: inflightStatus?.landed_slot ?? undefined,
+    };
+  }
+
+  /**
+   * Poll the bundle status until it lands, fails or `timeoutMs` elapses.
+   */
+  async confirmBundle(
+    bundleId: string,
+    opts?: { pollIntervalMs?: number; timeoutMs?: number }
+  ): Promise<BundleStatusResult> {
+    const debug = require("debug")("mfi:bundle");
+    const startTime = Date.now();
+
+    while (true) {
+      const status = await this.getBundleStatus(bundleId);
+      debug("Bundle %s status %s", bundleId, status.status);
+      if (status.status === BundleStatus.Landed) return status;
+      if (status.status === BundleStatus.Failed || status.status === BundleStatus.Invalid) {
+        throw new ProcessTransactionError(
+          `Bundle ${bundleId} ${status.status.toLowerCase()}`,
+          ProcessTransactionErrorType.FallthroughError
+        );
+      }
+      if (Date.now() - startTime > (opts?.timeoutMs ?? 60_000)) {
+        throw new ProcessTransactionError(
+          `Bundle ${bundleId} was not confirmed within the allotted time`,
+          ProcessTransactionErrorType.TimeoutError
+        );
+      }
+      await sleep(opts?.pollIntervalMs ?? 1_000);
+    }
+  }
+}
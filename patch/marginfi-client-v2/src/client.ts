@@ -20,40 +20,94 @@ import {
   VersionedMessage,
   VersionedTransaction,
 } from "@solana/web3.js";
-import { AccountType, Environment, MarginfiConfig, MarginfiProgram } from "./types";
+import {
+  AccountSubscriptionConnection,
+  AccountType,
+  Environment,
+  MarginfiConfig,
+  MarginfiProgram,
+} from "./types";
 import { MARGINFI_IDL } from "./idl";
+import BigNumber from "bignumber.js";
 import { getConfig } from "./config";
 import instructions from "./instructions";
 import { MarginRequirementType } from "./models/account";
 import {
   BankMetadataMap,
+  chunks,
   DEFAULT_COMMITMENT,
-  DEFAULT_CONFIRM_OPTS,
   InstructionsWrapper,
   loadBankMetadatas,
   loadKeypair,
   NodeWallet,
-  sleep,
   TransactionOptions,
   Wallet,
 } from "@mrgnlabs/mrgn-common";
 import { MarginfiGroup } from "./models/group";
+import { MarginfiEvent, parseMarginfiEventsFromTransaction } from "./events";
 import {
   BankRaw,
   parseOracleSetup,
   parsePriceInfo,
+  OracleConfidencePolicy,
+  OracleConfidencePolicyConfig,
+  resolveOracleConfidencePolicy,
+  computePriceDivergence,
+  PriceDivergence,
+  PriceSanityCheck,
+  ReferencePriceType,
   Bank,
   OraclePrice,
+  OraclePriceStaleness,
+  OracleStalenessPolicy,
+  DEFAULT_ORACLE_STALENESS_POLICY,
+  getOraclePriceStaleness,
   ADDRESS_LOOKUP_TABLE_FOR_GROUP,
   MarginfiAccountRaw,
 } from ".";
 import { MarginfiAccountWrapper } from "./models/account/wrapper";
-import { ProcessTransactionError, ProcessTransactionErrorType, parseErrorFromLogs } from "./errors";
-import axios from "axios";
+import {
+  OraclePriceError,
+  OraclePriceErrorType,
+  ProcessTransactionError,
+  ProcessTransactionErrorType,
+  parseErrorFromLogs,
+} from "./errors";
+import {
+  BlockEngineTransactionSender,
+  FanOutTransactionSender,
+  RebroadcastTransactionSender,
+  StandardTransactionSender,
+  TransactionSender,
+  TransactionSenderConfig,
+  TransactionSenderType,
+} from "./sender";
+import { JITO_TIP_ACCOUNTS, JitoBundleBuilder, JitoBundleClient, nextJitoTipAccount } from "./bundle";
+
+const MAX_ACCOUNTS_PER_RPC_CALL = 100;
 
 export type BankMap = Map<string, Bank>;
 export type OraclePriceMap = Map<string, OraclePrice>;
 
+export enum ClientUpdateType {
+  Bank = "Bank",
+  OraclePrice = "OraclePrice",
+}
+
+export type ClientUpdate =
+  | { type: ClientUpdateType.Bank; bankAddress: PublicKey; bank: Bank; previous: Bank | undefined; slot: number }
+  | {
+      type: ClientUpdateType.OraclePrice;
+      bankAddress: PublicKey;
+      oraclePrice: OraclePrice;
+      previous: OraclePrice | undefined;
+      slot: number;
+    };
+
+export interface ClientSubscription {
+  unsubscribe(): Promise<void>;
+}
+
 export type MarginfiClientOptions = {
   confirmOpts?: ConfirmOptions;
   readOnly?: boolean;
@@ -61,6 +115,31 @@ export type MarginfiClientOptions = {
   spamSendTx?: boolean;
   skipPreflightInSpam?: boolean;
   preloadedBankAddresses?: PublicKey[];
+  /** Send strategy, defaults to `Rebroadcast` with `spamSendTx` and to `Standard` otherwise */
+  transactionSenderType?: TransactionSenderType;
+  /** Endpoints the `FanOut` strategy broadcasts to, along with `sendEndpoint` */
+  fanOutEndpoints?: string[];
+  /**
+   * Commitment sent transactions must reach. Defaults to `finalized` in `processTransaction` and to `processed` in
+   * `sendAndConfirmTransaction`
+   */
+  transactionCommitment?: Commitment;
+  /** Delay between two signature status polls while confirming */
+  transactionPollIntervalMs?: number;
+  /** Give up confirming after this long even if the blockhash is still valid */
+  transactionTimeoutMs?: number;
+  /** Overrides the sender built from the options above */
+  transactionSender?: TransactionSender;
+  /** Block engine JSON-RPC endpoint used by `sendAndConfirmTrancationJito` */
+  blockEngineEndpoint?: string;
+  /** Tip accounts Jito tips rotate over, defaults to `JITO_TIP_ACCOUNTS` */
+  jitoTipAccounts?: PublicKey[];
+  /** Max age and status rules used to flag oracle prices the program would reject */
+  oracleStalenessPolicy?: Partial<OracleStalenessPolicy>;
+  /** Confidence intervals and realtime/weighted price choice used when parsing oracle prices, defaults to the program's */
+  oracleConfidencePolicy?: OracleConfidencePolicyConfig;
+  /** Reference prices each bank's price is compared against, keyed by bank address */
+  priceSanityChecks?: { [bankAddress: string]: PriceSanityCheck };
 };
 
 /**
@@ -72,9 +151,16 @@ class MarginfiClient {
   public oraclePrices: OraclePriceMap;
   public addressLookupTables: AddressLookupTableAccount[];
   private preloadedBankAddresses?: PublicKey[];
-  private sendEndpoint?: string;
-  private spamSendTx: boolean;
-  private skipPreflightInSpam: boolean;
+  public transactionSender: TransactionSender;
+  public blockEngineSender: TransactionSender;
+  public jitoTipAccounts: PublicKey[];
+  // Last valid block height of the blockhashes `signTranscationJito` built transactions with
+  private jitoBlockhashExpiries = new Map<string, number>();
+  public transactionCommitment?: Commitment;
+  private customTransactionSender: boolean;
+  public oracleStalenessPolicy: OracleStalenessPolicy;
+  public oracleConfidencePolicy?: OracleConfidencePolicyConfig;
+  public priceSanityChecks: { [bankAddress: string]: PriceSanityCheck };
 
   // --------------------------------------------------------------------------
   // Factories
@@ -93,16 +179,89 @@ class MarginfiClient {
     readonly bankMetadataMap?: BankMetadataMap,
     sendEndpoint?: string,
     spamSendTx: boolean = true,
-    skipPreflightInSpam: boolean = true
+    skipPreflightInSpam: boolean = true,
+    transactionSender?: TransactionSender,
+    blockEngineEndpoint?: string,
+    oracleStalenessPolicy?: Partial<OracleStalenessPolicy>,
+    oracleConfidencePolicy?: OracleConfidencePolicyConfig,
+    priceSanityChecks?: { [bankAddress: string]: PriceSanityCheck },
+    senderOptions?: Pick<
+      MarginfiClientOptions,
+      | "transactionSenderType"
+      | "fanOutEndpoints"
+      | "transactionCommitment"
+      | "transactionPollIntervalMs"
+      | "transactionTimeoutMs"
+      | "jitoTipAccounts"
+    >
   ) {
     this.group = group;
     this.banks = banks;
     this.oraclePrices = priceInfos;
     this.addressLookupTables = addressLookupTables ?? [];
     this.preloadedBankAddresses = preloadedBankAddresses;
-    this.sendEndpoint = sendEndpoint;
-    this.spamSendTx = spamSendTx;
-    this.skipPreflightInSpam = skipPreflightInSpam;
+    const connection = this.provider.connection;
+    const senderConfig: TransactionSenderConfig = {
+      pollIntervalMs: senderOptions?.transactionPollIntervalMs,
+      timeoutMs: senderOptions?.transactionTimeoutMs,
+    };
+    this.customTransactionSender = transactionSender !== undefined;
+    this.transactionSender =
+      transactionSender ??
+      this.makeTransactionSender(
+        senderOptions?.transactionSenderType ??
+          (spamSendTx ? TransactionSenderType.Rebroadcast : TransactionSenderType.Standard),
+        senderConfig,
+        { sendEndpoint, fanOutEndpoints: senderOptions?.fanOutEndpoints, blockEngineEndpoint, skipPreflightInSpam }
+      );
+    this.transactionCommitment = senderOptions?.transactionCommitment;
+    this.jitoTipAccounts = senderOptions?.jitoTipAccounts ?? JITO_TIP_ACCOUNTS;
+    if (this.jitoTipAccounts.length === 0) throw Error("At least one tip account is required");
+    this.blockEngineSender = new BlockEngineTransactionSender(connection, {
+      ...senderConfig,
+      endpoint: blockEngineEndpoint,
+      commitment: senderOptions?.transactionCommitment ?? "processed",
+    });
+    this.oracleStalenessPolicy = { ...DEFAULT_ORACLE_STALENESS_POLICY, ...oracleStalenessPolicy };
+    this.oracleConfidencePolicy = oracleConfidencePolicy;
+    this.priceSanityChecks = priceSanityChecks ?? {};
+  }
+
+  private makeTransactionSender(
+    type: TransactionSenderType,
+    config: TransactionSenderConfig,
+    sendOptions: {
+      sendEndpoint?: string;
+      fanOutEndpoints?: string[];
+      blockEngineEndpoint?: string;
+      skipPreflightInSpam: boolean;
+    }
+  ): TransactionSender {
+    const connection = this.provider.connection;
+    const { sendEndpoint, fanOutEndpoints, blockEngineEndpoint, skipPreflightInSpam } = sendOptions;
+    const sendConnection = sendEndpoint ? new Connection(sendEndpoint, this.provider.opts) : undefined;
+
+    switch (type) {
+      case TransactionSenderType.Standard:
+        return new StandardTransactionSender(connection, config);
+      case TransactionSenderType.Rebroadcast:
+        return new RebroadcastTransactionSender(connection, {
+          ...config,
+          sendConnection,
+          simulate: skipPreflightInSpam,
+        });
+      case TransactionSenderType.FanOut:
+        return new FanOutTransactionSender(
+          connection,
+          [
+            ...(sendConnection ? [sendConnection] : []),
+            ...(fanOutEndpoints ?? []).map((endpoint) => new Connection(endpoint, this.provider.opts)),
+          ],
+          { ...config, simulate: skipPreflightInSpam }
+        );
+      case TransactionSenderType.BlockEngine:
+        return new BlockEngineTransactionSender(connection, { ...config, endpoint: blockEngineEndpoint });
+    }
   }
 
   /**
@@ -136,6 +295,19 @@ class MarginfiClient {
     const preloadedBankAddresses = clientOptions?.preloadedBankAddresses;
     const spamSendTx = clientOptions?.spamSendTx ?? false;
     const skipPreflightInSpam = clientOptions?.skipPreflightInSpam ?? false;
+    const transactionSender = clientOptions?.transactionSender;
+    const senderOptions = {
+      transactionSenderType: clientOptions?.transactionSenderType,
+      fanOutEndpoints: clientOptions?.fanOutEndpoints,
+      transactionCommitment: clientOptions?.transactionCommitment,
+      transactionPollIntervalMs: clientOptions?.transactionPollIntervalMs,
+      transactionTimeoutMs: clientOptions?.transactionTimeoutMs,
+      jitoTipAccounts: clientOptions?.jitoTipAccounts,
+    };
+    const blockEngineEndpoint = clientOptions?.blockEngineEndpoint;
+    const oracleStalenessPolicy = clientOptions?.oracleStalenessPolicy;
+    const oracleConfidencePolicy = clientOptions?.oracleConfidencePolicy;
+    const priceSanityChecks = clientOptions?.priceSanityChecks;
 
     const provider = new AnchorProvider(connection, wallet, {
       ...AnchorProvider.defaultOptions(),
@@ -156,7 +328,8 @@ class MarginfiClient {
       config.groupPk,
       connection.commitment,
       preloadedBankAddresses,
-      bankMetadataMap
+      bankMetadataMap,
+      oracleConfidencePolicy
     );
 
     const addressLookupTableAddresses = ADDRESS_LOOKUP_TABLE_FOR_GROUP[config.groupPk.toString()] ?? [];
@@ -180,7 +353,13 @@ class MarginfiClient {
       bankMetadataMap,
       sendEndpoint,
       spamSendTx,
-      skipPreflightInSpam
+      skipPreflightInSpam,
+      transactionSender,
+      blockEngineEndpoint,
+      oracleStalenessPolicy,
+      oracleConfidencePolicy,
+      priceSanityChecks,
+      senderOptions
     );
   }
 
@@ -234,7 +413,8 @@ class MarginfiClient {
     groupAddress: PublicKey,
     commitment?: Commitment,
     bankAddresses?: PublicKey[],
-    bankMetadataMap?: BankMetadataMap
+    bankMetadataMap?: BankMetadataMap,
+    oracleConfidencePolicy?: OracleConfidencePolicyConfig
   ): Promise<{ marginfiGroup: MarginfiGroup; banks: Map<string, Bank>; priceInfos: Map<string, OraclePrice> }> {
     const debug = require("debug")("mfi:client");
     // Fetch & shape all accounts of Bank type (~ bank discovery)
@@ -260,11 +440,20 @@ class MarginfiClient {
       }));
     }
 
-    // Batch-fetch the group account and all the oracle accounts as per the banks retrieved above
-    const [groupAi, ...priceFeedAis] = await program.provider.connection.getMultipleAccountsInfo(
-      [groupAddress, ...bankDatasKeyed.map((b) => b.data.config.oracleKeys[0])],
-      commitment
-    ); // NOTE: This will break if/when we start having more than 1 oracle key per bank
+    // Batch-fetch the group account and the price account of every bank retrieved above, each oracle once
+    const priceKeysByBank = bankDatasKeyed.map((b) => b.data.config.oracleKeys[0]);
+    const oracleAddresses = [...new Set(priceKeysByBank.map((key) => key.toBase58()))];
+    const [groupAi, ...oracleAis] = (
+      await Promise.all(
+        chunks([groupAddress.toBase58(), ...oracleAddresses], MAX_ACCOUNTS_PER_RPC_CALL).map((addresses) =>
+          program.provider.connection.getMultipleAccountsInfo(
+            addresses.map((address) => new PublicKey(address)),
+            commitment
+          )
+        )
+      )
+    ).flat();
+    const oracleAiByAddress = new Map(oracleAddresses.map((address, index) => [address, oracleAis[index]]));
 
     // Unpack raw data for group and oracles, and build the `Bank`s map
     if (!groupAi) throw new Error("Failed to fetch the on-chain group data");
@@ -281,10 +470,14 @@ class MarginfiClient {
 
     const priceInfos = new Map(
       bankDatasKeyed.map(({ address: bankAddress, data: bankData }, index) => {
-        const priceDataRaw = priceFeedAis[index];
-        if (!priceDataRaw) throw new Error(`Failed to fetch price oracle account for bank ${bankAddress.toBase58()}`);
+        const priceKey = priceKeysByBank[index];
+        const oracleAi = oracleAiByAddress.get(priceKey.toBase58());
+        if (!oracleAi) {
+          throw new Error(`Failed to fetch oracle account ${priceKey.toBase58()} for bank ${bankAddress.toBase58()}`);
+        }
         const oracleSetup = parseOracleSetup(bankData.config.oracleSetup);
-        return [bankAddress.toBase58(), parsePriceInfo(oracleSetup, priceDataRaw.data)];
+        const confidencePolicy = resolveOracleConfidencePolicy(oracleConfidencePolicy, bankAddress);
+        return [bankAddress.toBase58(), parsePriceInfo(oracleSetup, oracleAi.data, confidencePolicy)];
       })
     );
 
@@ -302,13 +495,177 @@ class MarginfiClient {
       this.program,
       this.config.groupPk,
       this.program.provider.connection.commitment,
-      this.preloadedBankAddresses
+      this.preloadedBankAddresses,
+      this.bankMetadataMap,
+      this.oracleConfidencePolicy
     );
     this.group = marginfiGroup;
     this.banks = banks;
     this.oraclePrices = priceInfos;
   }
 
+  /**
+   * Stream bank and oracle account changes over websocket, updating `banks` and `oraclePrices` in place instead of
+   * refetching everything with `reload()`. Banks whose oracle changes are re-subscribed to the new oracle account.
+   *
+   * @param listener Called after each applied update
+   * @param opts.connection Connection used for the subscriptions, defaults to the provider connection
+   * @returns Handle to stop streaming
+   */
+  subscribe(
+    listener: (update: ClientUpdate) => void,
+    opts?: {
+      connection?: AccountSubscriptionConnection;
+      commitment?: Commitment;
+      onError?: (error: unknown) => void;
+    }
+  ): ClientSubscription {
+    const debug = require("debug")("mfi:client:subscription");
+    const connection = opts?.connection ?? this.provider.connection;
+    const commitment = opts?.commitment ?? this.provider.connection.commitment;
+    const onError = opts?.onError ?? ((error: unknown) => debug("Failed to apply account update: %s", error));
+
+    const bankSubscriptionIds = new Map<string, number>();
+    const oracleSubscriptions = new Map<string, { subscriptionId: number; bankAddresses: Set<string> }>();
+    // Latest data of every price account, shared by the banks using the same oracle
+    const oracleDatas = new Map<string, Buffer>();
+    // Notifications may still be in flight once `unsubscribe` was called, they must not create new listeners
+    let closed = false;
+
+    const updateOraclePrice = (bankAddress: string, slot: number) => {
+      const bank = this.banks.get(bankAddress);
+      if (!bank) return;
+      const priceDataRaw = oracleDatas.get(bank.config.oracleKeys[0].toBase58());
+      if (!priceDataRaw) return;
+
+      const previous = this.oraclePrices.get(bankAddress);
+      const confidencePolicy = this.getOracleConfidencePolicy(bank.address);
+      const oraclePrice = parsePriceInfo(bank.config.oracleSetup, priceDataRaw, confidencePolicy);
+      this.oraclePrices.set(bankAddress, oraclePrice);
+      listener({
+        type: ClientUpdateType.OraclePrice,
+        bankAddress: bank.address,
+        oraclePrice,
+        previous,
+        slot,
+      });
+    };
+
+    const subscribeOracle = (oracleKey: PublicKey, bankAddress: PublicKey) => {
+      const existing = oracleSubscriptions.get(oracleKey.toBase58());
+      if (existing) {
+        existing.bankAddresses.add(bankAddress.toBase58());
+        return;
+      }
+
+      const bankAddresses = new Set([bankAddress.toBase58()]);
+      const subscriptionId = connection.onAccountChange(
+        oracleKey,
+        (accountInfo, context) => {
+          if (closed) return;
+          oracleDatas.set(oracleKey.toBase58(), accountInfo.data);
+          for (const address of bankAddresses) {
+            try {
+              updateOraclePrice(address, context.slot);
+            } catch (error) {
+              onError(error);
+            }
+          }
+        },
+        commitment
+      );
+      oracleSubscriptions.set(oracleKey.toBase58(), { subscriptionId, bankAddresses });
+    };
+
+    const unsubscribeOracle = (oracleKey: PublicKey, bankAddress: PublicKey) => {
+      const existing = oracleSubscriptions.get(oracleKey.toBase58());
+      if (!existing) return;
+      existing.bankAddresses.delete(bankAddress.toBase58());
+      if (existing.bankAddresses.size > 0) return;
+      oracleSubscriptions.delete(oracleKey.toBase58());
+      oracleDatas.delete(oracleKey.toBase58());
+      connection.removeAccountChangeListener(existing.subscriptionId).catch(onError);
+    };
+
+    // The previous price is kept until the new oracle account is read, so that prices never go missing in between
+    const fetchOracle = (oracleKey: PublicKey, bankAddress: PublicKey) => {
+      this.provider.connection
+        .getAccountInfoAndContext(oracleKey, commitment)
+        .then(({ value, context }) => {
+          if (closed || !oracleSubscriptions.has(oracleKey.toBase58())) return;
+          if (!value) throw Error(`Oracle account ${oracleKey.toBase58()} not found`);
+          // A websocket notification received meanwhile is at least as recent
+          if (!oracleDatas.has(oracleKey.toBase58())) oracleDatas.set(oracleKey.toBase58(), value.data);
+          updateOraclePrice(bankAddress.toBase58(), context.slot);
+        })
+        .catch((error) => {
+          if (closed) return;
+          // The price parsed from the previous oracle no longer applies
+          const bank = this.banks.get(bankAddress.toBase58());
+          if (bank?.config.oracleKeys[0].equals(oracleKey)) this.oraclePrices.delete(bankAddress.toBase58());
+          onError(error);
+        });
+    };
+
+    for (const bank of this.banks.values()) {
+      const subscriptionId = connection.onAccountChange(
+        bank.address,
+        (accountInfo, context) => {
+          if (closed) return;
+          try {
+            const previous = this.banks.get(bank.address.toBase58());
+            const bankMetadata = this.bankMetadataMap ? this.bankMetadataMap[bank.address.toBase58()] : undefined;
+            const updated = Bank.fromAccountParsed(bank.address, Bank.decodeBankRaw(accountInfo.data), bankMetadata);
+            updated.tokenSymbol = updated.tokenSymbol ?? previous?.tokenSymbol;
+            this.banks.set(bank.address.toBase58(), updated);
+
+            const previousPriceKey = previous?.config.oracleKeys[0];
+            const priceKey = updated.config.oracleKeys[0];
+            if (!previousPriceKey || !previousPriceKey.equals(priceKey)) {
+              if (previousPriceKey) unsubscribeOracle(previousPriceKey, bank.address);
+              subscribeOracle(priceKey, bank.address);
+              if (oracleDatas.has(priceKey.toBase58())) {
+                updateOraclePrice(bank.address.toBase58(), context.slot);
+              } else {
+                fetchOracle(priceKey, bank.address);
+              }
+            }
+
+            listener({
+              type: ClientUpdateType.Bank,
+              bankAddress: bank.address,
+              bank: updated,
+              previous,
+              slot: context.slot,
+            });
+          } catch (error) {
+            onError(error);
+          }
+        },
+        commitment
+      );
+      bankSubscriptionIds.set(bank.address.toBase58(), subscriptionId);
+      subscribeOracle(bank.config.oracleKeys[0], bank.address);
+    }
+
+    debug("Subscribed to %s banks and %s oracles", bankSubscriptionIds.size, oracleSubscriptions.size);
+
+    return {
+      unsubscribe: async () => {
+        closed = true;
+        const subscriptionIds = [
+          ...bankSubscriptionIds.values(),
+          ...[...oracleSubscriptions.values()].map((s) => s.subscriptionId),
+        ];
+        bankSubscriptionIds.clear();
+        oracleSubscriptions.clear();
+        oracleDatas.clear();
+        await Promise.all(subscriptionIds.map((id) => connection.removeAccountChangeListener(id)));
+        debug("Unsubscribed from %s accounts", subscriptionIds.length);
+      },
+    };
+  }
+
   // --------------------------------------------------------------------------
   // Attributes
   // --------------------------------------------------------------------------
@@ -461,6 +818,19 @@ class MarginfiClient {
     ).map((a) => a.pubkey);
   }
 
+  /**
+   * Retrieves the marginfi events emitted by a confirmed transaction.
+   *
+   * @returns Decoded events, in emission order
+   */
+  async getTransactionEvents(signature: TransactionSignature): Promise<MarginfiEvent[]> {
+    const transaction = await this.provider.connection.getTransaction(signature, {
+      commitment: "confirmed",
+      maxSupportedTransactionVersion: 0,
+    });
+    return parseMarginfiEventsFromTransaction(transaction, this.programId);
+  }
+
   getBankByPk(bankAddress: Address): Bank | null {
     let _bankAddress = translateAddress(bankAddress);
     return this.banks.get(_bankAddress.toString()) ?? null;
@@ -480,6 +850,127 @@ class MarginfiClient {
     let _bankAddress = translateAddress(bankAddress);
     return this.oraclePrices.get(_bankAddress.toString()) ?? null;
   }
+
+  getOracleConfidencePolicy(bankAddress: Address): OracleConfidencePolicy {
+    return resolveOracleConfidencePolicy(this.oracleConfidencePolicy, translateAddress(bankAddress));
+  }
+
+  /**
+   * @param currentTimestamp Unix timestamp in seconds, defaults to the local clock
+   */
+  getOraclePriceStaleness(bankAddress: Address, currentTimestamp?: number): OraclePriceStaleness {
+    const _bankAddress = translateAddress(bankAddress);
+    const oraclePrice = this.getOraclePriceByBank(_bankAddress);
+    if (!oraclePrice) throw Error(`Price info for bank ${_bankAddress.toBase58()} not found`);
+    return getOraclePriceStaleness(oraclePrice, this.oracleStalenessPolicy, currentTimestamp);
+  }
+
+  /**
+   * @returns Addresses of the banks whose oracle price the program would currently reject
+   */
+  getBanksWithStaleOracles(currentTimestamp?: number): PublicKey[] {
+    return [...this.banks.values()]
+      .filter((bank) => {
+        const oraclePrice = this.getOraclePriceByBank(bank.address);
+        if (!oraclePrice) return false;
+        return getOraclePriceStaleness(oraclePrice, this.oracleStalenessPolicy, currentTimestamp).isStale;
+      })
+      .map((bank) => bank.address);
+  }
+
+  /**
+   * Throws an `OraclePriceError` if the oracle price of any of `bankAddresses` is stale or halted.
+   */
+  checkOraclePrices(bankAddresses: Address[], currentTimestamp?: number) {
+    for (const bankAddress of bankAddresses) {
+      const _bankAddress = translateAddress(bankAddress);
+      const { ageSec, isStale, isHalted } = this.getOraclePriceStaleness(_bankAddress, currentTimestamp);
+      if (!isStale) continue;
+      if (isHalted && this.oracleStalenessPolicy.rejectNonTrading) {
+        throw new OraclePriceError(
+          `Oracle price for bank ${_bankAddress.toBase58()} is not trading`,
+          OraclePriceErrorType.Halted,
+          _bankAddress
+        );
+      }
+      throw new OraclePriceError(
+        `Oracle price for bank ${_bankAddress.toBase58()} is stale (${ageSec}s old, max ${this.oracleStalenessPolicy.maxAgeSec}s)`,
+        OraclePriceErrorType.Stale,
+        _bankAddress
+      );
+    }
+  }
+  /**
+   * Compare the current price of `bankAddresses` (all banks with a configured check by default) against their
+   * reference price. Banks without a sanity check are skipped.
+   */
+  async getPriceDivergences(bankAddresses?: Address[]): Promise<PriceDivergence[]> {
+    const addresses = bankAddresses
+      ? bankAddresses.map((address) => translateAddress(address))
+      : Object.keys(this.priceSanityChecks).map((address) => new PublicKey(address));
+    const checked = addresses
+      .map((bankAddress) => ({ bankAddress, check: this.priceSanityChecks[bankAddress.toBase58()] }))
+      .filter(({ check }) => check !== undefined);
+
+    const oracleReferences = checked.flatMap(({ check }) =>
+      check.reference.type === ReferencePriceType.Oracle ? [check.reference.oracleKey] : []
+    );
+    const oracleAis =
+      oracleReferences.length > 0 ? await this.provider.connection.getMultipleAccountsInfo(oracleReferences) : [];
+    const oracleAiByAddress = new Map(oracleReferences.map((key, index) => [key.toBase58(), oracleAis[index]]));
+
+    return Promise.all(
+      checked.map(async ({ bankAddress, check }) => {
+        const oraclePrice = this.getOraclePriceByBank(bankAddress);
+        if (!oraclePrice) throw Error(`Price info for bank ${bankAddress.toBase58()} not found`);
+
+        let referencePrice: BigNumber;
+        const reference = check.reference;
+        switch (reference.type) {
+          case ReferencePriceType.Oracle: {
+            const oracleAi = oracleAiByAddress.get(reference.oracleKey.toBase58());
+            if (!oracleAi) throw Error(`Failed to fetch reference oracle ${reference.oracleKey.toBase58()}`);
+            referencePrice = parsePriceInfo(reference.oracleSetup, oracleAi.data).priceRealtime.price;
+            break;
+          }
+          case ReferencePriceType.Bank: {
+            const peggedPrice = this.getOraclePriceByBank(reference.bankAddress);
+            if (!peggedPrice) throw Error(`Price info for bank ${reference.bankAddress.toBase58()} not found`);
+            referencePrice = peggedPrice.priceRealtime.price.times(reference.ratio ?? 1);
+            break;
+          }
+          case ReferencePriceType.Provider: {
+            const providedPrice = await reference.getPrice(bankAddress);
+            if (providedPrice === null) throw Error(`No reference price provided for bank ${bankAddress.toBase58()}`);
+            referencePrice = new BigNumber(providedPrice);
+            break;
+          }
+        }
+
+        return computePriceDivergence(bankAddress, oraclePrice, referencePrice, check.maxDivergence);
+      })
+    );
+  }
+
+  /**
+   * Throws an `OraclePriceError` if the price of any of `bankAddresses` is an outlier versus its reference price.
+   */
+  async checkPriceSanity(bankAddresses: Address[]) {
+    const debug = require("debug")("mfi:client");
+    const divergences = await this.getPriceDivergences(bankAddresses);
+    for (const { bankAddress, price, referencePrice, divergence, isOutlier } of divergences) {
+      debug("Bank %s price %s, reference %s", bankAddress.toBase58(), price.toString(), referencePrice.toString());
+      if (!isOutlier) continue;
+      throw new OraclePriceError(
+        `Oracle price for bank ${bankAddress.toBase58()} diverges from its reference by ${divergence
+          .times(100)
+          .toFixed(2)}% (${price.toString()} vs ${referencePrice.toString()})`,
+        OraclePriceErrorType.Divergent,
+        bankAddress
+      );
+    }
+  }
+
   // --------------------------------------------------------------------------
   // User actions
   // --------------------------------------------------------------------------
@@ -538,6 +1029,76 @@ class MarginfiClient {
       : MarginfiAccountWrapper.fetch(newAccountKey, this, opts?.commitment);
   }
 
+  // --------------------------------------------------------------------------
+  // Keeper actions
+  // --------------------------------------------------------------------------
+
+  /**
+   * Create transaction instruction to accrue interest on a bank up to the current slot time.
+   *
+   * @returns transaction instruction
+   */
+  async makeAccrueBankInterestIx(bankAddress: PublicKey): Promise<InstructionsWrapper> {
+    const bank = this.getBankByPk(bankAddress);
+    if (!bank) throw Error(`Bank ${bankAddress.toBase58()} not found`);
+
+    const accrueIx = await instructions.makeAccrueBankInterestIx(this.program, {
+      marginfiGroup: this.groupAddress,
+      bank: bank.address,
+    });
+
+    return { instructions: [accrueIx], keys: [] };
+  }
+
+  /**
+   * Accrue interest on a bank up to the current slot time.
+   *
+   * @returns transaction signature
+   */
+  async accrueBankInterest(bankAddress: PublicKey, opts?: TransactionOptions): Promise<string> {
+    const dbg = require("debug")("mfi:client");
+
+    const ixs = await this.makeAccrueBankInterestIx(bankAddress);
+    const tx = new Transaction().add(...ixs.instructions);
+    const sig = await this.processTransaction(tx, [], opts);
+
+    dbg("Accrued interest for bank %s: %s", bankAddress, sig);
+    return sig;
+  }
+
+  /**
+   * Create transaction instruction to move outstanding group and insurance fees of a bank out of its liquidity vault.
+   *
+   * @returns transaction instruction
+   */
+  async makeCollectBankFeesIx(bankAddress: PublicKey): Promise<InstructionsWrapper> {
+    const bank = this.getBankByPk(bankAddress);
+    if (!bank) throw Error(`Bank ${bankAddress.toBase58()} not found`);
+
+    const collectFeesIx = await instructions.makeCollectBankFeesIx(this.program, {
+      marginfiGroup: this.groupAddress,
+      bank: bank.address,
+    });
+
+    return { instructions: [collectFeesIx], keys: [] };
+  }
+
+  /**
+   * Move outstanding group and insurance fees of a bank out of its liquidity vault.
+   *
+   * @returns transaction signature
+   */
+  async collectBankFees(bankAddress: PublicKey, opts?: TransactionOptions): Promise<string> {
+    const dbg = require("debug")("mfi:client");
+
+    const ixs = await this.makeCollectBankFeesIx(bankAddress);
+    const tx = new Transaction().add(...ixs.instructions);
+    const sig = await this.processTransaction(tx, [], opts);
+
+    dbg("Collected fees for bank %s: %s", bankAddress, sig);
+    return sig;
+  }
+
   // --------------------------------------------------------------------------
   // Helpers
   // --------------------------------------------------------------------------
@@ -559,7 +1120,6 @@ class MarginfiClient {
     // const connection = new Connection(this.provider.connection.rpcEndpoint, this.provider.opts);
     const connection = connection_args ? connection_args : new Connection(this.provider.connection.rpcEndpoint, this.provider.opts);
 
-    const sendConnection = this.sendEndpoint ? new Connection(this.sendEndpoint, this.provider.opts) : connection;
     let minContextSlot: number;
     let blockhash: string;
     let lastValidBlockHeight: number;
@@ -623,76 +1183,21 @@ class MarginfiClient {
       } else {
         versionedTransaction = await this.wallet.signTransaction(versionedTransaction);
 
-        let mergedOpts: ConfirmOptions = {
-          ...DEFAULT_CONFIRM_OPTS,
-          commitment: connection.commitment ?? DEFAULT_CONFIRM_OPTS.commitment,
-          preflightCommitment: connection.commitment ?? DEFAULT_CONFIRM_OPTS.commitment,
+        signature = await this.transactionSender.sendAndConfirm(versionedTransaction, {
+          blockhash,
+          lastValidBlockHeight,
           minContextSlot,
-          ...opts,
-        };
-
-        if (this.spamSendTx) {
-          console.log("[in spamSendTx]")
-          let status = "pending";
-          if (this.skipPreflightInSpam) {
-            console.log("[in skipPreflightInSpam]")
-            const response = await connection.simulateTransaction(
-              versionedTransaction,
-              opts ?? { minContextSlot, sigVerify: false }
-            );
-            if (response.value.err)
-              throw new SendTransactionError(JSON.stringify(response.value.err), response.value.logs ?? []);
-          }
-
-          while (true) {
-            signature = await sendConnection.sendTransaction(versionedTransaction, {
-              // skipPreflight: false,
-              // preflightCommitment: 'finalized',
-              maxRetries: 0
-            });
-            for (let i = 0; i < 5; i++) {
-              const signatureStatus = await connection.getSignatureStatus(signature, {
-                searchTransactionHistory: false,
-              });
-              if (signatureStatus.value?.confirmationStatus === 'finalized') {
-                status = "finalized";
-                break;
-              }
-              await sleep(200);
-            }
-
-            let blockHeight = await connection.getBlockHeight();
-            if (blockHeight > lastValidBlockHeight) {
-              throw new ProcessTransactionError(
-                "Transaction was not confirmed within †he alloted time",
-                ProcessTransactionErrorType.TimeoutError
-              );
-            }
-
-            if (status === "finalized") {
-              break;
-            }
-          }
-        } else {
-          signature = await connection.sendTransaction(versionedTransaction, {
-            // minContextSlot: mergedOpts.minContextSlot,
-            skipPreflight: mergedOpts.skipPreflight,
-            preflightCommitment: mergedOpts.preflightCommitment,
-            maxRetries: mergedOpts.maxRetries,
-          });
-          await connection.confirmTransaction(
-            {
-              blockhash,
-              lastValidBlockHeight,
-              signature,
-            },
-            'finalized'
-          );
-        }
+          commitment: this.resolveTransactionCommitment(opts, "finalized"),
+          connection: connection_args,
+          skipPreflight: opts?.skipPreflight,
+          preflightCommitment: opts?.preflightCommitment,
+          maxRetries: opts?.maxRetries,
+        });
 
         return signature;
       }
     } catch (error: any) {
+      if (error instanceof ProcessTransactionError) throw error;
       if (error instanceof SendTransactionError) {
         if (error.logs) {
           console.log("------ Logs 👇 ------");
@@ -770,110 +1275,23 @@ class MarginfiClient {
     opts?: TransactionOptions,
     connectionArgs?: Connection
   ): Promise<TransactionSignature> {
-
-    const connection = connectionArgs ?? new Connection(this.provider.connection.rpcEndpoint, this.provider.opts);
-    const sendConnection = this.sendEndpoint ? new Connection(this.sendEndpoint, this.provider.opts) : connection;
-
-    let signature: TransactionSignature = "";
-    let minContextSlot: number;
-    let blockhash: string;
-    let lastValidBlockHeight: number;
+    const connection = connectionArgs ?? this.provider.connection;
 
     try {
       const getLatestBlockhashAndContext = await connection.getLatestBlockhashAndContext();
 
-      minContextSlot = getLatestBlockhashAndContext.context.slot - 4;
-      blockhash = getLatestBlockhashAndContext.value.blockhash;
-      lastValidBlockHeight = getLatestBlockhashAndContext.value.lastValidBlockHeight;
-
-      let mergedOpts: ConfirmOptions = {
-        ...DEFAULT_CONFIRM_OPTS,
-        commitment: connection.commitment ?? DEFAULT_CONFIRM_OPTS.commitment,
-        preflightCommitment: connection.commitment ?? DEFAULT_CONFIRM_OPTS.commitment,
-        minContextSlot,
-        ...opts,
-      };
-
-      console.log(`mergedOpts :: ${JSON.stringify(mergedOpts)}`)
-
-      if (this.spamSendTx) {
-        console.log("[in spamSendTx]")
-        let status = "pending";
-
-        if (this.skipPreflightInSpam) {
-          console.log("[in skipPreflightInSpam]")
-
-          const response = await connection.simulateTransaction(
-            versionedTransaction,
-            opts ?? { minContextSlot, sigVerify: false }
-          );
-
-          if (response.value.err) {
-            console.log("error while simulation")
-            throw new SendTransactionError(JSON.stringify(response.value.err), response.value.logs ?? []);
-          } else {
-            console.log(response.value.logs);
-          }
-          console.log("[DONE skipPreflightInSpam]")
-        }
-
-        while (true) {
-          signature = await sendConnection.sendTransaction(versionedTransaction, {
-            // minContextSlot: mergedOpts.minContextSlot,
-            // skipPreflight: this.skipPreflightInSpam || mergedOpts.skipPreflight,
-            skipPreflight: true,
-            // preflightCommitment: 'processed',
-            maxRetries: 0,
-          });
-          console.log("transcation sent.", signature)
-
-          for (let i = 0; i < 5; i++) {
-            const signatureStatus = await connection.getSignatureStatus(signature, {
-              searchTransactionHistory: false,
-            });
-            console.log("signatureStatus", signatureStatus.value)
-
-            if (signatureStatus.value?.confirmationStatus === 'processed' || signatureStatus.value?.confirmationStatus === 'confirmed' || signatureStatus.value?.confirmationStatus === 'finalized') {
-              status = "processed";
-              break;
-            }
-            await sleep(400); // sleep for 400ms
-          } // 1 loop time is 400 * 4 = 800s
-
-          let blockHeight = await connection.getBlockHeight();
-          if (blockHeight > lastValidBlockHeight) {
-            throw new ProcessTransactionError(
-              "Transaction was not confirmed within †he alloted time",
-              ProcessTransactionErrorType.TimeoutError
-            );
-          }
-
-          if (status === "processed") {
-            break;
-          }
-        }
-      } else {
-        console.log("[Standerd sendTransaction]");
-
-        signature = await connection.sendTransaction(versionedTransaction, {
-          // skipPreflight: true,
-          preflightCommitment: 'processed',
-          // maxRetries: mergedOpts.maxRetries, // if none, RPC will keep re-trying
-        });
-
-        console.log("Confirming Transaction ... ");
-        await connection.confirmTransaction(
-          {
-            blockhash,
-            lastValidBlockHeight,
-            signature,
-          },
-          'processed'
-        );
-      }
-
-      return signature;
+      return await this.transactionSender.sendAndConfirm(versionedTransaction, {
+        blockhash: getLatestBlockhashAndContext.value.blockhash,
+        lastValidBlockHeight: getLatestBlockhashAndContext.value.lastValidBlockHeight,
+        minContextSlot: getLatestBlockhashAndContext.context.slot - 4,
+        commitment: this.resolveTransactionCommitment(opts, "processed"),
+        connection: connectionArgs,
+        skipPreflight: opts?.skipPreflight,
+        preflightCommitment: opts?.preflightCommitment,
+        maxRetries: opts?.maxRetries,
+      });
     } catch (error: any) {
+      if (error instanceof ProcessTransactionError) throw error;
       if (error instanceof SendTransactionError) {
         if (error.logs) {
           console.log("------ Logs 👇 ------");
@@ -892,12 +1310,26 @@ class MarginfiClient {
     }
   }
 
+  /**
+   * Per-call commitment first, then `transactionCommitment`. Otherwise a custom sender keeps its own target and the
+   * built-in ones fall back to the method's historical default.
+   */
+  private resolveTransactionCommitment(
+    opts: TransactionOptions | undefined,
+    defaultCommitment: Commitment
+  ): Commitment | undefined {
+    if (opts?.commitment) return opts.commitment;
+    if (this.transactionCommitment) return this.transactionCommitment;
+    return this.customTransactionSender ? undefined : defaultCommitment;
+  }
+
   async signTranscationJito(
     jitoTip: number, // in ui
     tx: Transaction,
     luts?: AddressLookupTableAccount[],
     signers?: Array<Signer>,
     priorityFee?: number, // priorityFeeUi
+    tipAccount: PublicKey = nextJitoTipAccount(this.jitoTipAccounts)
   ) {
     console.log(`this.provider.connection.commitment :: ${this.provider.connection.commitment}`);
     const jitoTipInLamport = jitoTip * LAMPORTS_PER_SOL;
@@ -918,13 +1350,10 @@ class MarginfiClient {
       );
     }
 
-    // https://jito-foundation.gitbook.io/mev/mev-payment-and-distribution/on-chain-addresses
     tx.instructions.push(
       SystemProgram.transfer({
         fromPubkey: this.provider.publicKey,
-        toPubkey: new PublicKey(
-          "DttWaMuVvTiduZRnguLF7jNxTgiMBZ1hyAumKUiL2KRL" // Jito tip account
-        ),
+        toPubkey: tipAccount,
         lamports: jitoTipInLamport, // tip
       })
     );
@@ -933,6 +1362,12 @@ class MarginfiClient {
 
     const minContextSlot = getLatestBlockhashAndContext.context.slot - 4;
     const recentBlockhash = getLatestBlockhashAndContext.value.blockhash;
+    const { lastValidBlockHeight } = getLatestBlockhashAndContext.value;
+    // Blockhashes stay valid for 150 blocks, entries further behind the latest one have expired
+    this.jitoBlockhashExpiries.forEach((expiry, blockhash) => {
+      if (expiry < lastValidBlockHeight - 150) this.jitoBlockhashExpiries.delete(blockhash);
+    });
+    this.jitoBlockhashExpiries.set(recentBlockhash, lastValidBlockHeight);
 
     let vTx: VersionedTransaction = new VersionedTransaction(
       new TransactionMessage({
@@ -1022,91 +1457,94 @@ class MarginfiClient {
 
   }
 
+  /**
+   * Send through the block engine and confirm until the transaction's own blockhash expires. Its last valid block
+   * height is known for transactions built by `signTranscationJito`, otherwise pass it along.
+   */
   async sendAndConfirmTrancationJito(
     tx: VersionedTransaction,
-  ) {
+    lastValidBlockHeight?: number
+  ): Promise<TransactionSignature> {
+    const blockhash = tx.message.recentBlockhash;
+    const expiry = lastValidBlockHeight ?? this.jitoBlockhashExpiries.get(blockhash);
+    if (expiry === undefined) {
+      throw Error(`Last valid block height of blockhash ${blockhash} is unknown, pass it along`);
+    }
+    return this.blockEngineSender.sendAndConfirm(tx, { blockhash, lastValidBlockHeight: expiry });
+  }
 
-    let rawTx = tx.serialize();
-    const recentBlockhash = await this.provider.connection.getLatestBlockhash();
-
-    const encodedTx = bs58.encode(rawTx);
-    const jitoURL = "https://mainnet.block-engine.jito.wtf/api/v1/transactions";
-    const payload = {
-      jsonrpc: "2.0",
-      id: 1,
-      method: "sendTransaction",
-      params: [encodedTx, {
-        "maxRetries": 0,
-        "skipPreflight": true,
-        "preflightCommitment": "processed"
-      }],
-    };
-    // let txOpts = commitmentConfig(provider.connection.commitment);
-    let txSig: string;
-    while (true) {
-      try {
-        const response = await axios.post(jitoURL, payload, {
-          headers: { "Content-Type": "application/json" },
-        });
-        console.log(`JitoResponse :: ${JSON.stringify(response.data)}`);
-
-        txSig = response.data.result;
-        console.log(`txSig :: ${txSig}`);
-        break; // Exit loop if the request is successful
-      } catch (error: any) {
-        console.error(`Error: ${error}`);
-        console.log("Retrying to send the transaction...");
-      }
-      console.log("Resending jitobundle")
-      await sleep(500); // Don't spam jito bundle RPC
+  /**
+   * Send several transactions as one atomic Jito bundle. A tip transaction to the next tip account in rotation is
+   * appended, and every transaction is signed by the wallet.
+   *
+   * @returns Bundle id and transaction signatures, in bundle order
+   */
+  async sendJitoBundle(
+    transactions: VersionedTransaction[],
+    opts: {
+      tipUi: number;
+      tipAccounts?: PublicKey[];
+      /** Lookup tables used by the transactions, others than the client's are fetched when missing */
+      addressLookupTables?: AddressLookupTableAccount[];
+      bundleClient?: JitoBundleClient;
+      confirm?: boolean;
+      pollIntervalMs?: number;
+      timeoutMs?: number;
     }
-    // let sentJitoBundle = false
-    // // send jito bunle untile it turn, trues
-    // try {
-    //   const response = await axios.post(jitoURL, payload, {
-    //     headers: { "Content-Type": "application/json" },
-    //   });
-    //   console.log(`JitoResponse :: ${JSON.stringify(response.data)}`)
-
-    //   txSig = response.data.result;
-    //   // turn sentJitoBundle to true
-    //   console.log(`txSig :: ${txSig}`)
-    // } catch (error) {
-    //   console.error("Error:", error);
-    //   throw new Error("Jito Bundle Error: cannot send.");
-    // }
-    // // keep repeting
-
-    let currentBlockHeight = await this.provider.connection.getBlockHeight(
-      this.provider.connection.commitment
+  ): Promise<{ bundleId: string; signatures: TransactionSignature[] }> {
+    const debug = require("debug")("mfi:client:bundle");
+
+    const builder = new JitoBundleBuilder(
+      this.provider.publicKey,
+      Math.round(opts.tipUi * LAMPORTS_PER_SOL),
+      opts.tipAccounts ?? this.jitoTipAccounts
+    );
+    const lookupTables = await this.resolveAddressLookupTables(transactions, opts.addressLookupTables);
+    transactions.forEach((tx) =>
+      builder.addTransaction(
+        tx,
+        tx.message.addressTableLookups.map((lookup) => lookupTables.get(lookup.accountKey.toBase58())!)
+      )
     );
+    const bundle = await this.wallet.signAllTransactions(builder.build());
 
-    while (currentBlockHeight < recentBlockhash.lastValidBlockHeight) {
-      // Keep resending to maximise the chance of confirmation
-      const txSigHash = await this.provider.connection.sendRawTransaction(rawTx, {
-        skipPreflight: true,
-        preflightCommitment: this.provider.connection.commitment,
-        maxRetries: 0,
-      });
-      console.log(txSigHash)
+    const bundleClient = opts.bundleClient ?? new JitoBundleClient();
+    const bundleId = await bundleClient.sendBundle(bundle);
+    debug("Sent bundle %s with %s transactions", bundleId, bundle.length);
 
-      let signatureStatus = await this.provider.connection.getSignatureStatus(txSig);
-      console.log("signatureStatus", signatureStatus.value)
+    if (opts.confirm ?? true) {
+      await bundleClient.confirmBundle(bundleId, { pollIntervalMs: opts.pollIntervalMs, timeoutMs: opts.timeoutMs });
+      debug("Bundle %s landed", bundleId);
+    }
 
-      currentBlockHeight = await this.provider.connection.getBlockHeight(
-        this.provider.connection.commitment
-      );
+    return { bundleId, signatures: bundle.map((tx) => bs58.encode(tx.signatures[0])) };
+  }
 
-      if (signatureStatus.value != null) {
-        if (
-          signatureStatus.value?.confirmationStatus === 'processed' || signatureStatus.value?.confirmationStatus === 'confirmed' || signatureStatus.value?.confirmationStatus === 'finalized'
-        ) {
-          return txSig;
-        }
-      }
-      await sleep(500); // Don't spam the RPC
-    }
-    throw Error(`Transaction ${txSig} was not confirmed`);
+  /**
+   * Lookup tables referenced by the transactions, keyed by address: the client's and `known` ones first, the rest is
+   * fetched.
+   */
+  private async resolveAddressLookupTables(
+    transactions: VersionedTransaction[],
+    known: AddressLookupTableAccount[] = []
+  ): Promise<Map<string, AddressLookupTableAccount>> {
+    const lookupTables = new Map(
+      [...this.addressLookupTables, ...known].map((table) => [table.key.toBase58(), table] as const)
+    );
+    const missing = [
+      ...new Set(
+        transactions.flatMap((tx) => tx.message.addressTableLookups.map((lookup) => lookup.accountKey.toBase58()))
+      ),
+    ].filter((address) => !lookupTables.has(address));
+
+    const fetched = await Promise.all(
+      missing.map((address) => this.provider.connection.getAddressLookupTable(new PublicKey(address)))
+    );
+    fetched.forEach((response, i) => {
+      if (!response.value) throw Error(`Address lookup table ${missing[i]} not found`);
+      lookupTables.set(missing[i], response.value);
+    });
+    return lookupTables;
   }
 
   async simulateTransaction(
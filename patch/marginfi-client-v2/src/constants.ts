@@ -25,3 +25,10 @@ export const ADDRESS_LOOKUP_TABLE_FOR_GROUP: { [key: string]: PublicKey[] } = {
 export const DISABLED_FLAG: number = 1 << 0;
 export const FLASHLOAN_ENABLED_FLAG: number = 1 << 2;
 export const TRANSFER_ACCOUNT_AUTHORITY_FLAG: number = 1 << 3;
+
+export const EMISSIONS_FLAG_BORROW_ACTIVE: number = 1 << 0;
+export const EMISSIONS_FLAG_LENDING_ACTIVE: number = 1 << 1;
+
+export const MAX_PRICE_AGE_SEC = 60;
+export const SECONDS_PER_DAY = 24 * 60 * 60;
+export const REPAY_ALL_INTEREST_BUFFER_SEC = 5 * 60;
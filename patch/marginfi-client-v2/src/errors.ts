@@ -21,6 +21,27 @@ export class ProcessTransactionError extends Error {
   }
 }
 
+export enum OraclePriceErrorType {
+  Stale,
+  Halted,
+  Divergent,
+}
+
+/**
+ * Raised client-side for prices the program would reject with `StaleOracle`, or that are outliers versus their
+ * reference price.
+ */
+export class OraclePriceError extends Error {
+  bankAddress: PublicKey;
+  type: OraclePriceErrorType;
+
+  constructor(message: string, type: OraclePriceErrorType, bankAddress: PublicKey) {
+    super(message);
+    this.type = type;
+    this.bankAddress = bankAddress;
+  }
+}
+
 export interface ProgramError {
   programId: string;
   code: number;
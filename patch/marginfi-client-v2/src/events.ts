@@ -0,0 +1,358 @@
+import { BorshCoder, EventParser } from "@coral-xyz/anchor";
+import { PublicKey } from "@solana/web3.js";
+import BigNumber from "bignumber.js";
+import BN from "bn.js";
+import { MARGINFI_IDL } from "./idl";
+import { BankConfigOptRaw } from "./models/bank";
+
+// ----------------------------------------------------------------------------
+// On-chain types
+// ----------------------------------------------------------------------------
+
+interface GroupEventHeaderRaw {
+  signer: PublicKey | null;
+  marginfiGroup: PublicKey;
+}
+
+interface AccountEventHeaderRaw {
+  signer: PublicKey | null;
+  marginfiAccount: PublicKey;
+  marginfiAccountAuthority: PublicKey;
+  marginfiGroup: PublicKey;
+}
+
+interface LiquidationBalancesRaw {
+  liquidateeAssetBalance: number;
+  liquidateeLiabilityBalance: number;
+  liquidatorAssetBalance: number;
+  liquidatorLiabilityBalance: number;
+}
+
+export type { GroupEventHeaderRaw, AccountEventHeaderRaw, LiquidationBalancesRaw };
+
+// ----------------------------------------------------------------------------
+// Client types
+// ----------------------------------------------------------------------------
+
+enum MarginfiEventType {
+  MarginfiGroupCreate = "MarginfiGroupCreateEvent",
+  MarginfiGroupConfigure = "MarginfiGroupConfigureEvent",
+  LendingPoolBankCreate = "LendingPoolBankCreateEvent",
+  LendingPoolBankConfigure = "LendingPoolBankConfigureEvent",
+  LendingPoolBankAccrueInterest = "LendingPoolBankAccrueInterestEvent",
+  LendingPoolBankCollectFees = "LendingPoolBankCollectFeesEvent",
+  LendingPoolBankHandleBankruptcy = "LendingPoolBankHandleBankruptcyEvent",
+  MarginfiAccountCreate = "MarginfiAccountCreateEvent",
+  LendingAccountDeposit = "LendingAccountDepositEvent",
+  LendingAccountRepay = "LendingAccountRepayEvent",
+  LendingAccountBorrow = "LendingAccountBorrowEvent",
+  LendingAccountWithdraw = "LendingAccountWithdrawEvent",
+  LendingAccountLiquidate = "LendingAccountLiquidateEvent",
+  MarginfiAccountTransferAccountAuthority = "MarginfiAccountTransferAccountAuthorityEvent",
+}
+
+type GroupEventHeader = GroupEventHeaderRaw;
+type AccountEventHeader = AccountEventHeaderRaw;
+
+interface LiquidationBalances {
+  liquidateeAssetBalance: BigNumber;
+  liquidateeLiabilityBalance: BigNumber;
+  liquidatorAssetBalance: BigNumber;
+  liquidatorLiabilityBalance: BigNumber;
+}
+
+interface MarginfiGroupCreateEvent {
+  type: MarginfiEventType.MarginfiGroupCreate;
+  header: GroupEventHeader;
+}
+
+interface MarginfiGroupConfigureEvent {
+  type: MarginfiEventType.MarginfiGroupConfigure;
+  header: GroupEventHeader;
+  config: { admin: PublicKey | null };
+}
+
+interface LendingPoolBankCreateEvent {
+  type: MarginfiEventType.LendingPoolBankCreate;
+  header: GroupEventHeader;
+  bank: PublicKey;
+  mint: PublicKey;
+}
+
+interface LendingPoolBankConfigureEvent {
+  type: MarginfiEventType.LendingPoolBankConfigure;
+  header: GroupEventHeader;
+  bank: PublicKey;
+  mint: PublicKey;
+  config: BankConfigOptRaw;
+}
+
+interface LendingPoolBankAccrueInterestEvent {
+  type: MarginfiEventType.LendingPoolBankAccrueInterest;
+  header: GroupEventHeader;
+  bank: PublicKey;
+  mint: PublicKey;
+  delta: number;
+  feesCollected: BigNumber;
+  insuranceCollected: BigNumber;
+}
+
+interface LendingPoolBankCollectFeesEvent {
+  type: MarginfiEventType.LendingPoolBankCollectFees;
+  header: GroupEventHeader;
+  bank: PublicKey;
+  mint: PublicKey;
+  groupFeesCollected: BigNumber;
+  groupFeesOutstanding: BigNumber;
+  insuranceFeesCollected: BigNumber;
+  insuranceFeesOutstanding: BigNumber;
+}
+
+interface LendingPoolBankHandleBankruptcyEvent {
+  type: MarginfiEventType.LendingPoolBankHandleBankruptcy;
+  header: AccountEventHeader;
+  bank: PublicKey;
+  mint: PublicKey;
+  badDebt: BigNumber;
+  coveredAmount: BigNumber;
+  socializedAmount: BigNumber;
+}
+
+interface MarginfiAccountCreateEvent {
+  type: MarginfiEventType.MarginfiAccountCreate;
+  header: AccountEventHeader;
+}
+
+interface LendingAccountDepositEvent {
+  type: MarginfiEventType.LendingAccountDeposit;
+  header: AccountEventHeader;
+  bank: PublicKey;
+  mint: PublicKey;
+  amount: BigNumber;
+}
+
+interface LendingAccountRepayEvent {
+  type: MarginfiEventType.LendingAccountRepay;
+  header: AccountEventHeader;
+  bank: PublicKey;
+  mint: PublicKey;
+  amount: BigNumber;
+  closeBalance: boolean;
+}
+
+interface LendingAccountBorrowEvent {
+  type: MarginfiEventType.LendingAccountBorrow;
+  header: AccountEventHeader;
+  bank: PublicKey;
+  mint: PublicKey;
+  amount: BigNumber;
+}
+
+interface LendingAccountWithdrawEvent {
+  type: MarginfiEventType.LendingAccountWithdraw;
+  header: AccountEventHeader;
+  bank: PublicKey;
+  mint: PublicKey;
+  amount: BigNumber;
+  closeBalance: boolean;
+}
+
+interface LendingAccountLiquidateEvent {
+  type: MarginfiEventType.LendingAccountLiquidate;
+  header: AccountEventHeader;
+  liquidateeMarginfiAccount: PublicKey;
+  liquidateeMarginfiAccountAuthority: PublicKey;
+  assetBank: PublicKey;
+  assetMint: PublicKey;
+  liabilityBank: PublicKey;
+  liabilityMint: PublicKey;
+  liquidateePreHealth: BigNumber;
+  liquidateePostHealth: BigNumber;
+  preBalances: LiquidationBalances;
+  postBalances: LiquidationBalances;
+}
+
+interface MarginfiAccountTransferAccountAuthorityEvent {
+  type: MarginfiEventType.MarginfiAccountTransferAccountAuthority;
+  header: AccountEventHeader;
+  oldAccountAuthority: PublicKey;
+  newAccountAuthority: PublicKey;
+}
+
+type MarginfiEvent =
+  | MarginfiGroupCreateEvent
+  | MarginfiGroupConfigureEvent
+  | LendingPoolBankCreateEvent
+  | LendingPoolBankConfigureEvent
+  | LendingPoolBankAccrueInterestEvent
+  | LendingPoolBankCollectFeesEvent
+  | LendingPoolBankHandleBankruptcyEvent
+  | MarginfiAccountCreateEvent
+  | LendingAccountDepositEvent
+  | LendingAccountRepayEvent
+  | LendingAccountBorrowEvent
+  | LendingAccountWithdrawEvent
+  | LendingAccountLiquidateEvent
+  | MarginfiAccountTransferAccountAuthorityEvent;
+
+// ----------------------------------------------------------------------------
+// Parsing
+// ----------------------------------------------------------------------------
+
+/**
+ * Decode all marginfi events emitted by `programId` in the given transaction logs, in emission order.
+ * Events unknown to the bundled IDL are skipped.
+ */
+function parseMarginfiEventsFromLogs(logs: string[], programId: PublicKey): MarginfiEvent[] {
+  const debug = require("debug")("mfi:events");
+  const parser = new EventParser(programId, new BorshCoder(MARGINFI_IDL));
+
+  const events: MarginfiEvent[] = [];
+  for (const event of parser.parseLogs(logs)) {
+    const parsed = parseMarginfiEvent(event.name, event.data);
+    if (parsed) {
+      events.push(parsed);
+    } else {
+      debug("Skipping unknown event %s", event.name);
+    }
+  }
+  return events;
+}
+
+/**
+ * Decode all marginfi events from a confirmed transaction, as returned by `getTransaction`/`getParsedTransaction`.
+ */
+function parseMarginfiEventsFromTransaction(
+  transaction: { meta: { logMessages?: string[] | null } | null } | null,
+  programId: PublicKey
+): MarginfiEvent[] {
+  const logs = transaction?.meta?.logMessages;
+  if (!logs) return [];
+  return parseMarginfiEventsFromLogs(logs, programId);
+}
+
+function parseMarginfiEvent(name: string, data: any): MarginfiEvent | null {
+  switch (name) {
+    case MarginfiEventType.MarginfiGroupCreate:
+      return { type: MarginfiEventType.MarginfiGroupCreate, header: data.header };
+    case MarginfiEventType.MarginfiGroupConfigure:
+      return { type: MarginfiEventType.MarginfiGroupConfigure, header: data.header, config: data.config };
+    case MarginfiEventType.LendingPoolBankCreate:
+      return { type: MarginfiEventType.LendingPoolBankCreate, header: data.header, bank: data.bank, mint: data.mint };
+    case MarginfiEventType.LendingPoolBankConfigure:
+      return {
+        type: MarginfiEventType.LendingPoolBankConfigure,
+        header: data.header,
+        bank: data.bank,
+        mint: data.mint,
+        config: data.config,
+      };
+    case MarginfiEventType.LendingPoolBankAccrueInterest:
+      return {
+        type: MarginfiEventType.LendingPoolBankAccrueInterest,
+        header: data.header,
+        bank: data.bank,
+        mint: data.mint,
+        delta: (data.delta as BN).toNumber(),
+        feesCollected: new BigNumber(data.feesCollected),
+        insuranceCollected: new BigNumber(data.insuranceCollected),
+      };
+    case MarginfiEventType.LendingPoolBankCollectFees:
+      return {
+        type: MarginfiEventType.LendingPoolBankCollectFees,
+        header: data.header,
+        bank: data.bank,
+        mint: data.mint,
+        groupFeesCollected: new BigNumber(data.groupFeesCollected),
+        groupFeesOutstanding: new BigNumber(data.groupFeesOutstanding),
+        insuranceFeesCollected: new BigNumber(data.insuranceFeesCollected),
+        insuranceFeesOutstanding: new BigNumber(data.insuranceFeesOutstanding),
+      };
+    case MarginfiEventType.LendingPoolBankHandleBankruptcy:
+      return {
+        type: MarginfiEventType.LendingPoolBankHandleBankruptcy,
+        header: data.header,
+        bank: data.bank,
+        mint: data.mint,
+        badDebt: new BigNumber(data.badDebt),
+        coveredAmount: new BigNumber(data.coveredAmount),
+        socializedAmount: new BigNumber(data.socializedAmount),
+      };
+    case MarginfiEventType.MarginfiAccountCreate:
+      return { type: MarginfiEventType.MarginfiAccountCreate, header: data.header };
+    case MarginfiEventType.LendingAccountDeposit:
+    case MarginfiEventType.LendingAccountBorrow:
+      return {
+        type: name,
+        header: data.header,
+        bank: data.bank,
+        mint: data.mint,
+        amount: new BigNumber((data.amount as BN).toString()),
+      };
+    case MarginfiEventType.LendingAccountRepay:
+    case MarginfiEventType.LendingAccountWithdraw:
+      return {
+        type: name,
+        header: data.header,
+        bank: data.bank,
+        mint: data.mint,
+        amount: new BigNumber((data.amount as BN).toString()),
+        closeBalance: data.closeBalance,
+      };
+    case MarginfiEventType.LendingAccountLiquidate:
+      return {
+        type: MarginfiEventType.LendingAccountLiquidate,
+        header: data.header,
+        liquidateeMarginfiAccount: data.liquidateeMarginfiAccount,
+        liquidateeMarginfiAccountAuthority: data.liquidateeMarginfiAccountAuthority,
+        assetBank: data.assetBank,
+        assetMint: data.assetMint,
+        liabilityBank: data.liabilityBank,
+        liabilityMint: data.liabilityMint,
+        liquidateePreHealth: new BigNumber(data.liquidateePreHealth),
+        liquidateePostHealth: new BigNumber(data.liquidateePostHealth),
+        preBalances: parseLiquidationBalances(data.preBalances),
+        postBalances: parseLiquidationBalances(data.postBalances),
+      };
+    case MarginfiEventType.MarginfiAccountTransferAccountAuthority:
+      return {
+        type: MarginfiEventType.MarginfiAccountTransferAccountAuthority,
+        header: data.header,
+        oldAccountAuthority: data.oldAccountAuthority,
+        newAccountAuthority: data.newAccountAuthority,
+      };
+    default:
+      return null;
+  }
+}
+
+function parseLiquidationBalances(balancesRaw: LiquidationBalancesRaw): LiquidationBalances {
+  return {
+    liquidateeAssetBalance: new BigNumber(balancesRaw.liquidateeAssetBalance),
+    liquidateeLiabilityBalance: new BigNumber(balancesRaw.liquidateeLiabilityBalance),
+    liquidatorAssetBalance: new BigNumber(balancesRaw.liquidatorAssetBalance),
+    liquidatorLiabilityBalance: new BigNumber(balancesRaw.liquidatorLiabilityBalance),
+  };
+}
+
+export { MarginfiEventType, parseMarginfiEventsFromLogs, parseMarginfiEventsFromTransaction };
+export type {
+  MarginfiEvent,
+  GroupEventHeader,
+  AccountEventHeader,
+  LiquidationBalances,
+  MarginfiGroupCreateEvent,
+  MarginfiGroupConfigureEvent,
+  LendingPoolBankCreateEvent,
+  LendingPoolBankConfigureEvent,
+  LendingPoolBankAccrueInterestEvent,
+  LendingPoolBankCollectFeesEvent,
+  LendingPoolBankHandleBankruptcyEvent,
+  MarginfiAccountCreateEvent,
+  LendingAccountDepositEvent,
+  LendingAccountRepayEvent,
+  LendingAccountBorrowEvent,
+  LendingAccountWithdrawEvent,
+  LendingAccountLiquidateEvent,
+  MarginfiAccountTransferAccountAuthorityEvent,
+};
@@ -2605,6 +2605,12 @@ export type Marginfi = {
           },
           {
             "name": "SwitchboardV2"
+          },
+          {
+            "name": "PythPushOracle"
+          },
+          {
+            "name": "SwitchboardPull"
           }
         ]
       }
@@ -5886,6 +5892,12 @@ export const IDL: Marginfi = {
           },
           {
             "name": "SwitchboardV2"
+          },
+          {
+            "name": "PythPushOracle"
+          },
+          {
+            "name": "SwitchboardPull"
           }
         ]
       }
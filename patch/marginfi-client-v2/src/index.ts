@@ -3,6 +3,10 @@ import MarginfiClient from "./client";
 export * from "./config";
 export * from "./client";
 export * from "./errors";
+export * from "./events";
+export * from "./sender";
+export * from "./bundle";
+export * from "./swap";
 export * from "./instructions";
 export * from "./constants";
 export * from "./models/bank";
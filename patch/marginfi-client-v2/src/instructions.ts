@@ -1,7 +1,7 @@
-import { AccountMeta, PublicKey, SYSVAR_INSTRUCTIONS_PUBKEY, SystemProgram } from "@solana/web3.js";
+import { AccountMeta, PublicKey, SYSVAR_INSTRUCTIONS_PUBKEY, SYSVAR_RENT_PUBKEY, SystemProgram } from "@solana/web3.js";
 import BN from "bn.js";
 import { MarginfiProgram } from "./types";
-import { BankConfigOptRaw } from "./models/bank";
+import { BankConfigCompactRaw, BankConfigOptRaw } from "./models/bank";
 
 async function makeInitMarginfiAccountIx(
   mfProgram: MarginfiProgram,
@@ -306,6 +306,242 @@ async function makeAccountAuthorityTransferIx(
     .instruction();
 }
 
+function makeCloseBalanceIx(
+  mfiProgram: MarginfiProgram,
+  accounts: {
+    marginfiGroup: PublicKey;
+    marginfiAccount: PublicKey;
+    signer: PublicKey;
+    bank: PublicKey;
+  }
+) {
+  return mfiProgram.methods
+    .lendingAccountCloseBalance()
+    .accounts({
+      marginfiGroup: accounts.marginfiGroup,
+      marginfiAccount: accounts.marginfiAccount,
+      signer: accounts.signer,
+      bank: accounts.bank,
+    })
+    .instruction();
+}
+
+function makeSettleEmissionsIx(
+  mfiProgram: MarginfiProgram,
+  accounts: {
+    marginfiAccount: PublicKey;
+    bank: PublicKey;
+  }
+) {
+  return mfiProgram.methods
+    .lendingAccountSettleEmissions()
+    .accounts({
+      marginfiAccount: accounts.marginfiAccount,
+      bank: accounts.bank,
+    })
+    .instruction();
+}
+
+function makeAccrueBankInterestIx(
+  mfiProgram: MarginfiProgram,
+  accounts: {
+    marginfiGroup: PublicKey;
+    bank: PublicKey;
+  }
+) {
+  return mfiProgram.methods
+    .lendingPoolAccrueBankInterest()
+    .accounts({
+      marginfiGroup: accounts.marginfiGroup,
+      bank: accounts.bank,
+    })
+    .instruction();
+}
+
+function makeCollectBankFeesIx(
+  mfiProgram: MarginfiProgram,
+  accounts: {
+    marginfiGroup: PublicKey;
+    bank: PublicKey;
+  }
+) {
+  return mfiProgram.methods
+    .lendingPoolCollectBankFees()
+    .accounts({
+      marginfiGroup: accounts.marginfiGroup,
+      bank: accounts.bank,
+    })
+    .instruction();
+}
+
+function makeGroupInitIx(
+  mfiProgram: MarginfiProgram,
+  accounts: {
+    marginfiGroup: PublicKey;
+    admin: PublicKey;
+  }
+) {
+  return mfiProgram.methods
+    .marginfiGroupInitialize()
+    .accounts({
+      marginfiGroup: accounts.marginfiGroup,
+      admin: accounts.admin,
+      systemProgram: SystemProgram.programId,
+    })
+    .instruction();
+}
+
+function makeGroupConfigureIx(
+  mfiProgram: MarginfiProgram,
+  accounts: {
+    marginfiGroup: PublicKey;
+    admin: PublicKey;
+  },
+  args: {
+    newAdmin: PublicKey | null;
+  }
+) {
+  return mfiProgram.methods
+    .marginfiGroupConfigure({ admin: args.newAdmin })
+    .accounts({
+      marginfiGroup: accounts.marginfiGroup,
+      admin: accounts.admin,
+    })
+    .instruction();
+}
+
+function makePoolAddBankIx(
+  mfiProgram: MarginfiProgram,
+  accounts: {
+    marginfiGroup: PublicKey;
+    admin: PublicKey;
+    feePayer: PublicKey;
+    bankMint: PublicKey;
+    bank: PublicKey;
+  },
+  args: {
+    bankConfig: BankConfigCompactRaw;
+  }
+) {
+  return mfiProgram.methods
+    .lendingPoolAddBank(args.bankConfig)
+    .accounts({
+      marginfiGroup: accounts.marginfiGroup,
+      admin: accounts.admin,
+      feePayer: accounts.feePayer,
+      bankMint: accounts.bankMint,
+      bank: accounts.bank,
+      rent: SYSVAR_RENT_PUBKEY,
+      systemProgram: SystemProgram.programId,
+    })
+    .instruction();
+}
+
+function makePoolAddBankWithSeedIx(
+  mfiProgram: MarginfiProgram,
+  accounts: {
+    marginfiGroup: PublicKey;
+    admin: PublicKey;
+    feePayer: PublicKey;
+    bankMint: PublicKey;
+    bank: PublicKey;
+  },
+  args: {
+    bankConfig: BankConfigCompactRaw;
+    bankSeed: BN;
+  }
+) {
+  return mfiProgram.methods
+    .lendingPoolAddBankWithSeed(args.bankConfig, args.bankSeed)
+    .accounts({
+      marginfiGroup: accounts.marginfiGroup,
+      admin: accounts.admin,
+      feePayer: accounts.feePayer,
+      bankMint: accounts.bankMint,
+      bank: accounts.bank,
+      rent: SYSVAR_RENT_PUBKEY,
+      systemProgram: SystemProgram.programId,
+    })
+    .instruction();
+}
+
+function makePoolSetupEmissionsIx(
+  mfiProgram: MarginfiProgram,
+  accounts: {
+    marginfiGroup: PublicKey;
+    admin: PublicKey;
+    bank: PublicKey;
+    emissionsMint: PublicKey;
+    emissionsFundingAccount: PublicKey;
+  },
+  args: {
+    flags: BN;
+    rate: BN;
+    totalEmissions: BN;
+  }
+) {
+  return mfiProgram.methods
+    .lendingPoolSetupEmissions(args.flags, args.rate, args.totalEmissions)
+    .accounts({
+      marginfiGroup: accounts.marginfiGroup,
+      admin: accounts.admin,
+      bank: accounts.bank,
+      emissionsMint: accounts.emissionsMint,
+      emissionsFundingAccount: accounts.emissionsFundingAccount,
+      systemProgram: SystemProgram.programId,
+    })
+    .instruction();
+}
+
+function makePoolUpdateEmissionsParametersIx(
+  mfiProgram: MarginfiProgram,
+  accounts: {
+    marginfiGroup: PublicKey;
+    admin: PublicKey;
+    bank: PublicKey;
+    emissionsMint: PublicKey;
+    emissionsFundingAccount: PublicKey;
+  },
+  args: {
+    emissionsFlags: BN | null;
+    emissionsRate: BN | null;
+    additionalEmissions: BN | null;
+  }
+) {
+  return mfiProgram.methods
+    .lendingPoolUpdateEmissionsParameters(args.emissionsFlags, args.emissionsRate, args.additionalEmissions)
+    .accounts({
+      marginfiGroup: accounts.marginfiGroup,
+      admin: accounts.admin,
+      bank: accounts.bank,
+      emissionsMint: accounts.emissionsMint,
+      emissionsFundingAccount: accounts.emissionsFundingAccount,
+    })
+    .instruction();
+}
+
+function makePoolHandleBankruptcyIx(
+  mfiProgram: MarginfiProgram,
+  accounts: {
+    marginfiGroup: PublicKey;
+    admin: PublicKey;
+    bank: PublicKey;
+    marginfiAccount: PublicKey;
+  },
+  remainingAccounts: AccountMeta[] = []
+) {
+  return mfiProgram.methods
+    .lendingPoolHandleBankruptcy()
+    .accounts({
+      marginfiGroup: accounts.marginfiGroup,
+      admin: accounts.admin,
+      bank: accounts.bank,
+      marginfiAccount: accounts.marginfiAccount,
+    })
+    .remainingAccounts(remainingAccounts)
+    .instruction();
+}
+
 const instructions = {
   makeDepositIx,
   makeRepayIx,
@@ -320,6 +556,17 @@ const instructions = {
   makeBeginFlashLoanIx,
   makeEndFlashLoanIx,
   makeAccountAuthorityTransferIx,
+  makeCloseBalanceIx,
+  makeSettleEmissionsIx,
+  makeAccrueBankInterestIx,
+  makeCollectBankFeesIx,
+  makeGroupInitIx,
+  makeGroupConfigureIx,
+  makePoolAddBankIx,
+  makePoolAddBankWithSeedIx,
+  makePoolSetupEmissionsIx,
+  makePoolUpdateEmissionsParametersIx,
+  makePoolHandleBankruptcyIx,
 };
 
 export default instructions;
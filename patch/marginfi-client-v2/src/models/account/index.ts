@@ -1,2 +1,6 @@
 export * from "./pure";
+export * from "./simulation";
+export * from "./scenario";
+export * from "./projection";
+export * from "./leverage";
 export * from "./wrapper";
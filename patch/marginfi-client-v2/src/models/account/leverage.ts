@@ -0,0 +1,234 @@
+import { Amount } from "@mrgnlabs/mrgn-common";
+import { PublicKey, VersionedTransaction } from "@solana/web3.js";
+import BigNumber from "bignumber.js";
+import { Bank } from "../bank";
+import { Balance } from "../balance";
+import { OraclePrice, PriceBias } from "../price";
+import { SwapProvider, SwapQuote } from "../../swap";
+import { MarginRequirementType } from "./pure";
+import { HealthComponents } from "./scenario";
+
+// ----------------------------------------------------------------------------
+// Client types
+// ----------------------------------------------------------------------------
+
+interface LoopArgs {
+  depositBankAddress: PublicKey;
+  borrowBankAddress: PublicKey;
+  /** UI amount of the deposit bank's token supplied from the wallet */
+  principal: Amount;
+  /** Collateral value over equity of the looped position, e.g. 3 for 3x */
+  targetLeverage: number;
+  swapProvider: SwapProvider;
+  slippageBps: number;
+  priorityFeeUi?: number;
+}
+
+interface LoopResult {
+  transaction: VersionedTransaction;
+  /** UI amount borrowed and swapped into the deposit token */
+  borrowAmount: BigNumber;
+  /** UI amount deposited: the principal plus the minimum swap output */
+  depositAmount: BigNumber;
+  quote: SwapQuote;
+  /** Leverage reached if the swap fills at its minimum output */
+  leverage: BigNumber;
+  /** Initial health components of the account once the transaction lands */
+  initHealth: HealthComponents;
+}
+
+interface UnwindArgs {
+  depositBankAddress: PublicKey;
+  borrowBankAddress: PublicKey;
+  /** Leverage to bring the position down to, 1 closes it completely with `withdrawAll`/`repayAll` */
+  targetLeverage: number;
+  swapProvider: SwapProvider;
+  slippageBps: number;
+  priorityFeeUi?: number;
+}
+
+interface UnwindResult {
+  transaction: VersionedTransaction;
+  /** UI amount of collateral withdrawn and swapped into the debt token */
+  withdrawAmount: BigNumber;
+  /** UI amount of debt repaid, the whole accrued liability when closing */
+  repayAmount: BigNumber;
+  quote: SwapQuote;
+  /** Leverage left once the transaction lands if the swap fills at its minimum output, 1 when closing */
+  leverage: BigNumber;
+  closed: boolean;
+}
+
+// ----------------------------------------------------------------------------
+// Leverage math
+// ----------------------------------------------------------------------------
+
+/**
+ * Highest leverage a deposit/borrow pair supports under initial requirements: every unit of debt must be covered by
+ * `liabilityWeightInit / assetWeightInit` units of collateral, so leverage is capped at `1 / (1 - wA / wL)`.
+ *
+ * @returns `Infinity` if the weights allow borrowing the full collateral value
+ */
+function computeMaxLeverage(depositBank: Bank, borrowBank: Bank, depositOraclePrice: OraclePrice): BigNumber {
+  const assetWeight = depositBank.getAssetWeight(MarginRequirementType.Initial, depositOraclePrice);
+  const liabilityWeight = borrowBank.getLiabilityWeight(MarginRequirementType.Initial);
+  if (assetWeight.isZero()) return new BigNumber(1);
+
+  const ratio = assetWeight.div(liabilityWeight);
+  if (ratio.gte(1)) return new BigNumber(Infinity);
+  return new BigNumber(1).div(new BigNumber(1).minus(ratio));
+}
+
+/**
+ * UI amount to borrow so that `principal` reaches `targetLeverage` once the borrowed tokens are swapped into the
+ * deposit token at the worst price allowed by `slippageBps`.
+ *
+ * With `b` the borrowed value in deposit tokens and `s` the slippage, leverage is `(P + b(1 - s)) / (P - bs)`, hence
+ * `b = P(L - 1) / (1 + s(L - 1))`.
+ */
+function computeLoopBorrowAmount(
+  depositBank: Bank,
+  borrowBank: Bank,
+  depositOraclePrice: OraclePrice,
+  borrowOraclePrice: OraclePrice,
+  principal: Amount,
+  targetLeverage: number,
+  slippageBps: number
+): BigNumber {
+  const depositPrice = depositBank.getPriceForRequirement(
+    depositOraclePrice,
+    MarginRequirementType.Equity,
+    PriceBias.None
+  );
+  const borrowPrice = borrowBank.getPriceForRequirement(
+    borrowOraclePrice,
+    MarginRequirementType.Equity,
+    PriceBias.None
+  );
+  const slippage = new BigNumber(slippageBps).div(10_000);
+  const leverageExcess = new BigNumber(targetLeverage).minus(1);
+
+  const borrowValueInDepositToken = new BigNumber(principal)
+    .times(leverageExcess)
+    .div(slippage.times(leverageExcess).plus(1));
+  return borrowValueInDepositToken
+    .times(depositPrice)
+    .div(borrowPrice)
+    .decimalPlaces(borrowBank.mintDecimals, BigNumber.ROUND_DOWN);
+}
+
+/**
+ * UI amount of collateral to withdraw and swap into the debt token so that a position holding `depositAmount` against
+ * `borrowAmount` comes down to `targetLeverage`, the swap filling at the worst price allowed by `slippageBps`.
+ *
+ * With `C` the collateral value, `E` the equity and `s` the slippage, withdrawing `x` leaves a leverage of
+ * `(C - x) / (E - xs)`, hence `x = (C - LE) / (1 - Ls)`. A target of 1 covers the whole debt.
+ *
+ * @returns the amount, capped at `depositAmount`, or zero if the position is already at or below the target
+ */
+function computeUnwindWithdrawAmount(
+  depositBank: Bank,
+  borrowBank: Bank,
+  depositOraclePrice: OraclePrice,
+  borrowOraclePrice: OraclePrice,
+  depositAmount: BigNumber.Value,
+  borrowAmount: BigNumber.Value,
+  targetLeverage: number,
+  slippageBps: number
+): BigNumber {
+  const depositPrice = depositBank.getPriceForRequirement(
+    depositOraclePrice,
+    MarginRequirementType.Equity,
+    PriceBias.None
+  );
+  const collateralValue = depositPrice.times(depositAmount);
+  const debtValue = borrowBank
+    .getPriceForRequirement(borrowOraclePrice, MarginRequirementType.Equity, PriceBias.None)
+    .times(borrowAmount);
+  const equity = collateralValue.minus(debtValue);
+  const slippage = new BigNumber(slippageBps).div(10_000);
+
+  const denominator = new BigNumber(1).minus(slippage.times(targetLeverage));
+  if (denominator.lte(0)) throw Error(`Slippage of ${slippageBps} bps is too high to reach ${targetLeverage}x`);
+
+  const withdrawValue = collateralValue.minus(equity.times(targetLeverage)).div(denominator);
+  if (withdrawValue.lte(0)) return new BigNumber(0);
+
+  return BigNumber.min(withdrawValue.div(depositPrice), depositAmount).decimalPlaces(
+    depositBank.mintDecimals,
+    BigNumber.ROUND_UP
+  );
+}
+
+/**
+ * UI amount of the input bank's token to swap so that the output covers `outputAmount` even at the worst price allowed
+ * by `slippageBps`.
+ */
+function computeSwapInputAmount(
+  inputBank: Bank,
+  outputBank: Bank,
+  inputOraclePrice: OraclePrice,
+  outputOraclePrice: OraclePrice,
+  outputAmount: BigNumber.Value,
+  slippageBps: number
+): BigNumber {
+  const inputPrice = inputBank.getPriceForRequirement(inputOraclePrice, MarginRequirementType.Equity, PriceBias.None);
+  const outputPrice = outputBank.getPriceForRequirement(
+    outputOraclePrice,
+    MarginRequirementType.Equity,
+    PriceBias.None
+  );
+  const slippage = new BigNumber(slippageBps).div(10_000);
+  if (slippage.gte(1)) throw Error(`Invalid slippage of ${slippageBps} bps`);
+
+  return new BigNumber(outputAmount)
+    .times(outputPrice)
+    .div(inputPrice)
+    .div(new BigNumber(1).minus(slippage))
+    .decimalPlaces(inputBank.mintDecimals, BigNumber.ROUND_UP);
+}
+
+/**
+ * Collateral value over equity for a position holding `depositAmount` against `borrowAmount`, both in UI units.
+ */
+function computeLeverage(
+  depositBank: Bank,
+  borrowBank: Bank,
+  depositOraclePrice: OraclePrice,
+  borrowOraclePrice: OraclePrice,
+  depositAmount: BigNumber.Value,
+  borrowAmount: BigNumber.Value
+): BigNumber {
+  const collateralValue = depositBank
+    .getPriceForRequirement(depositOraclePrice, MarginRequirementType.Equity, PriceBias.None)
+    .times(depositAmount);
+  const debtValue = borrowBank
+    .getPriceForRequirement(borrowOraclePrice, MarginRequirementType.Equity, PriceBias.None)
+    .times(borrowAmount);
+  const equity = collateralValue.minus(debtValue);
+  if (equity.lte(0)) return new BigNumber(Infinity);
+  return collateralValue.div(equity);
+}
+
+/**
+ * UI amount of debt to buy when repaying a whole balance. `repayAll` settles the debt accrued when the transaction
+ * lands, so interest is accrued `bufferSeconds` past `timestamp` to cover the delay; the excess stays in the wallet.
+ */
+function computeRepayAllSwapAmount(
+  repayBank: Bank,
+  balance: Balance,
+  timestamp: number,
+  bufferSeconds: number
+): BigNumber {
+  return balance.computeQuantityUi(repayBank.accrueInterest(timestamp + bufferSeconds)).liabilities;
+}
+
+export {
+  computeMaxLeverage,
+  computeLoopBorrowAmount,
+  computeUnwindWithdrawAmount,
+  computeSwapInputAmount,
+  computeLeverage,
+  computeRepayAllSwapAmount,
+};
+export type { LoopArgs, LoopResult, UnwindArgs, UnwindResult };
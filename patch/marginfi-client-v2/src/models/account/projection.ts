@@ -0,0 +1,125 @@
+import { PublicKey } from "@solana/web3.js";
+import BigNumber from "bignumber.js";
+import { Bank } from "../bank";
+import { OraclePrice } from "../price";
+import { MarginfiAccount, MarginRequirementType } from "./pure";
+import { SECONDS_PER_DAY } from "../../constants";
+
+// ----------------------------------------------------------------------------
+// Client types
+// ----------------------------------------------------------------------------
+
+interface GrowthProjectionOptions {
+  /** Unix timestamp (seconds) the projection starts from, defaults to the local clock */
+  startTimestamp?: number;
+  /** Interest is accrued, and rates recomputed, once per step. Defaults to one day */
+  stepSeconds?: number;
+  /** Defaults to one year */
+  horizonSeconds?: number;
+}
+
+interface ProjectedBalance {
+  bankAddress: PublicKey;
+  assetQuantity: BigNumber;
+  liabilityQuantity: BigNumber;
+}
+
+interface GrowthProjectionPoint {
+  timestamp: number;
+  balances: ProjectedBalance[];
+  /** Unweighted USD value of assets minus liabilities */
+  netEquity: BigNumber;
+  /** Maintenance-weighted USD value of assets minus liabilities, the account is liquidatable below zero */
+  maintenanceHealth: BigNumber;
+}
+
+interface GrowthProjection {
+  points: GrowthProjectionPoint[];
+  /** Estimated seconds until maintenance health reaches zero, `null` if it does not within the horizon */
+  timeToLiquidation: number | null;
+}
+
+// ----------------------------------------------------------------------------
+// Projector
+// ----------------------------------------------------------------------------
+
+/**
+ * Steps the account forward in time at constant prices, accruing interest on its banks the way the program does, and
+ * estimates when maintenance health reaches zero by interpolating between steps. Inputs are never mutated.
+ */
+function projectAccountGrowth(
+  marginfiAccount: MarginfiAccount,
+  banks: Map<string, Bank>,
+  oraclePrices: Map<string, OraclePrice>,
+  opts?: GrowthProjectionOptions
+): GrowthProjection {
+  const startTimestamp = opts?.startTimestamp ?? Math.floor(Date.now() / 1000);
+  const stepSeconds = opts?.stepSeconds ?? SECONDS_PER_DAY;
+  const horizonSeconds = opts?.horizonSeconds ?? 365 * SECONDS_PER_DAY;
+  if (stepSeconds <= 0) throw Error("Step duration must be positive");
+
+  // Only the banks the account has positions in change its health
+  let projectedBanks = new Map(
+    marginfiAccount.activeBalances.map((balance) => {
+      const bank = banks.get(balance.bankPk.toBase58());
+      if (!bank) throw Error(`Bank ${balance.bankPk.toBase58()} not found`);
+      return [balance.bankPk.toBase58(), bank];
+    })
+  );
+
+  const points: GrowthProjectionPoint[] = [];
+  let timeToLiquidation: number | null = null;
+
+  for (let elapsed = 0; elapsed <= horizonSeconds; elapsed += stepSeconds) {
+    const timestamp = startTimestamp + elapsed;
+    projectedBanks = new Map(
+      [...projectedBanks.entries()].map(([address, bank]) => [address, bank.accrueInterest(timestamp)])
+    );
+
+    const point = computeGrowthProjectionPoint(marginfiAccount, projectedBanks, oraclePrices, timestamp);
+    points.push(point);
+
+    if (point.maintenanceHealth.lte(0)) {
+      const previous = points.length > 1 ? points[points.length - 2] : undefined;
+      timeToLiquidation = previous
+        ? interpolateZeroCrossing(previous, point) - startTimestamp
+        : Math.max(0, timestamp - startTimestamp);
+      break;
+    }
+  }
+
+  return { points, timeToLiquidation };
+}
+
+function computeGrowthProjectionPoint(
+  marginfiAccount: MarginfiAccount,
+  banks: Map<string, Bank>,
+  oraclePrices: Map<string, OraclePrice>,
+  timestamp: number
+): GrowthProjectionPoint {
+  const balances = marginfiAccount.activeBalances.map((balance) => {
+    const bank = banks.get(balance.bankPk.toBase58())!;
+    const { assets, liabilities } = balance.computeQuantity(bank);
+    return { bankAddress: balance.bankPk, assetQuantity: assets, liabilityQuantity: liabilities };
+  });
+
+  const equity = marginfiAccount.computeHealthComponentsWithoutBias(banks, oraclePrices, MarginRequirementType.Equity);
+  const maintenance = marginfiAccount.computeHealthComponents(banks, oraclePrices, MarginRequirementType.Maintenance);
+
+  return {
+    timestamp,
+    balances,
+    netEquity: equity.assets.minus(equity.liabilities),
+    maintenanceHealth: maintenance.assets.minus(maintenance.liabilities),
+  };
+}
+
+function interpolateZeroCrossing(before: GrowthProjectionPoint, after: GrowthProjectionPoint): number {
+  const drop = before.maintenanceHealth.minus(after.maintenanceHealth);
+  if (drop.lte(0)) return after.timestamp;
+  const fraction = before.maintenanceHealth.div(drop).toNumber();
+  return before.timestamp + Math.ceil(fraction * (after.timestamp - before.timestamp));
+}
+
+export { projectAccountGrowth };
+export type { GrowthProjectionOptions, GrowthProjection, GrowthProjectionPoint, ProjectedBalance };
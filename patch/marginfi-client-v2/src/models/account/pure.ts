@@ -10,8 +10,8 @@ import {
 } from "@mrgnlabs/mrgn-common";
 import { AccountMeta, ComputeBudgetProgram, PublicKey, TransactionInstruction } from "@solana/web3.js";
 import BigNumber from "bignumber.js";
-import { Bank } from "../bank";
-import { PriceBias, OraclePrice } from "../price";
+import { Bank, getActiveOracleKeys } from "../bank";
+import { PriceBias, OraclePrice, OracleConfidencePolicy } from "../price";
 import instructions from "../../instructions";
 import { AccountType, MarginfiProgram } from "../../types";
 import { makeWrapSolIxs, makeUnwrapSolIx } from "../../utils";
@@ -27,6 +27,7 @@ import {
   TRANSFER_ACCOUNT_AUTHORITY_FLAG,
 } from "../..";
 import BN from "bn.js";
+import { AccountAction, AccountSimulationResult, simulateAccountActions } from "./simulation";
 import { Address, BorshCoder, BorshInstructionCoder, translateAddress } from "@coral-xyz/anchor";
 
 // ----------------------------------------------------------------------------
@@ -96,6 +97,17 @@ class MarginfiAccount {
     const marginfiAccountData = MarginfiAccount.decode(marginfiAccountRawData);
     return MarginfiAccount.fromAccountParsed(marginfiAccountPk, marginfiAccountData);
   }
+
+  clone(): MarginfiAccount {
+    const marginfiAccount = new MarginfiAccount(this.address, {
+      group: this.group,
+      authority: this.authority,
+      lendingAccount: { balances: [] },
+      accountFlags: this.accountFlags,
+    });
+    marginfiAccount.balances = this.balances.map((b) => b.clone());
+    return marginfiAccount;
+  }
   // ----------------------------------------------------------------------------
   // Attributes
   // ----------------------------------------------------------------------------
@@ -195,6 +207,17 @@ class MarginfiAccount {
     return { assets, liabilities };
   }
 
+  /**
+   * Projects the account and banks after `actions`, without any RPC round-trip. See `simulateAccountActions`.
+   */
+  projectActions(
+    banks: Map<string, Bank>,
+    oraclePrices: Map<string, OraclePrice>,
+    actions: AccountAction[]
+  ): AccountSimulationResult {
+    return simulateAccountActions(this, banks, oraclePrices, actions);
+  }
+
   computeAccountValue(banks: Map<string, Bank>, oraclePrices: Map<string, OraclePrice>): BigNumber {
     const { assets, liabilities } = this.computeHealthComponentsWithoutBias(
       banks,
@@ -238,6 +261,78 @@ class MarginfiAccount {
     return aprToApy(apr);
   }
 
+  /**
+   * Per-balance interest and emissions rates, and the net APR/APY of the account weighted by its net USD value.
+   * Emissions are only counted for mints with an entry in `emissionsPrices`, keyed by emissions mint address.
+   */
+  computeNetApyBreakdown(
+    banks: Map<string, Bank>,
+    oraclePrices: Map<string, OraclePrice>,
+    emissionsPrices: Map<string, EmissionsPrice> = new Map()
+  ): NetApyBreakdown {
+    const { assets, liabilities } = this.computeHealthComponentsWithoutBias(
+      banks,
+      oraclePrices,
+      MarginRequirementType.Equity
+    );
+    const totalUsdValue = assets.minus(liabilities);
+    const denominator = totalUsdValue.isEqualTo(0) ? new BigNumber(1) : totalUsdValue;
+
+    const balances = this.activeBalances.map((balance): BalanceApyBreakdown => {
+      const bank = banks.get(balance.bankPk.toBase58());
+      if (!bank) throw Error(`Bank ${balance.bankPk.toBase58()} not found`);
+
+      const priceInfo = oraclePrices.get(balance.bankPk.toBase58());
+      if (!priceInfo) throw Error(`Bank ${shortenAddress(balance.bankPk)} not found`);
+
+      const { assets: assetUsdValue, liabilities: liabilityUsdValue } = balance.computeUsdValue(
+        bank,
+        priceInfo,
+        MarginRequirementType.Equity
+      );
+      const { lendingRate, borrowingRate } = bank.computeInterestRates();
+      const emissionsPrice = emissionsPrices.get(bank.emissionsMint.toBase58());
+      const { lendingEmissionsRate, borrowingEmissionsRate } = emissionsPrice
+        ? bank.computeEmissionsRates(priceInfo, emissionsPrice.price, emissionsPrice.decimals)
+        : { lendingEmissionsRate: new BigNumber(0), borrowingEmissionsRate: new BigNumber(0) };
+
+      return {
+        bankAddress: balance.bankPk,
+        assetUsdValue,
+        liabilityUsdValue,
+        lendingApr: lendingRate,
+        borrowingApr: borrowingRate,
+        lendingEmissionsApr: assetUsdValue.isZero() ? new BigNumber(0) : lendingEmissionsRate,
+        borrowingEmissionsApr: liabilityUsdValue.isZero() ? new BigNumber(0) : borrowingEmissionsRate,
+      };
+    });
+
+    const interestApr = balances
+      .reduce(
+        (apr, b) => apr.plus(b.lendingApr.times(b.assetUsdValue)).minus(b.borrowingApr.times(b.liabilityUsdValue)),
+        new BigNumber(0)
+      )
+      .div(denominator);
+    const emissionsApr = balances
+      .reduce(
+        (apr, b) =>
+          apr
+            .plus(b.lendingEmissionsApr.times(b.assetUsdValue))
+            .plus(b.borrowingEmissionsApr.times(b.liabilityUsdValue)),
+        new BigNumber(0)
+      )
+      .div(denominator);
+    const netApr = interestApr.plus(emissionsApr);
+
+    return {
+      balances,
+      interestApr,
+      emissionsApr,
+      netApr,
+      netApy: aprToApy(netApr.toNumber()),
+    };
+  }
+
   /**
    * Calculate the maximum amount of asset that can be withdrawn from a bank given existing deposits of the asset
    * and the untied collateral of the margin account.
@@ -308,8 +403,8 @@ class MarginfiAccount {
       freeCollateral
     );
 
-    const priceLowestBias = bank.getPrice(priceInfo, PriceBias.Lowest, true);
-    const priceHighestBias = bank.getPrice(priceInfo, PriceBias.Highest, true);
+    const priceLowestBias = bank.getPriceForRequirement(priceInfo, MarginRequirementType.Initial, PriceBias.Lowest);
+    const priceHighestBias = bank.getPriceForRequirement(priceInfo, MarginRequirementType.Initial, PriceBias.Highest);
     const assetWeight = bank.getAssetWeight(MarginRequirementType.Initial, priceInfo);
     const liabWeight = bank.getLiabilityWeight(MarginRequirementType.Initial);
 
@@ -393,7 +488,11 @@ class MarginfiAccount {
         );
         const maintUntiedCollateral = maintAssets.minus(maintLiabilities);
 
-        const priceLowestBias = bank.getPrice(priceInfo, PriceBias.Lowest, true);
+        const priceLowestBias = bank.getPriceForRequirement(
+          priceInfo,
+          MarginRequirementType.Maintenance,
+          PriceBias.Lowest
+        );
         const maintWeightedPrice = priceLowestBias.times(maintAssetWeight);
 
         return maintUntiedCollateral.div(maintWeightedPrice);
@@ -411,7 +510,7 @@ class MarginfiAccount {
     // apply volatility factor to avoid failure due to price volatility / slippage
     const initUntiedCollateralForBank = freeCollateral.times(_volatilityFactor);
 
-    const priceLowestBias = bank.getPrice(priceInfo, PriceBias.Lowest, true);
+    const priceLowestBias = bank.getPriceForRequirement(priceInfo, MarginRequirementType.Initial, PriceBias.Lowest);
     const initWeightedPrice = priceLowestBias.times(initAssetWeight);
     const maxWithdraw = initUntiedCollateralForBank.div(initWeightedPrice);
 
@@ -450,20 +549,83 @@ class MarginfiAccount {
 
       const assetWeight = bank.getAssetWeight(MarginRequirementType.Maintenance, priceInfo);
       const priceConfidence = bank
-        .getPrice(priceInfo, PriceBias.None, false)
-        .minus(bank.getPrice(priceInfo, PriceBias.Lowest, false));
+        .getPriceForRequirement(priceInfo, MarginRequirementType.Maintenance, PriceBias.None)
+        .minus(bank.getPriceForRequirement(priceInfo, MarginRequirementType.Maintenance, PriceBias.Lowest));
       liquidationPrice = liabilities.minus(assets).div(assetQuantityUi.times(assetWeight)).plus(priceConfidence);
     } else {
       const liabWeight = bank.getLiabilityWeight(MarginRequirementType.Maintenance);
       const priceConfidence = bank
-        .getPrice(priceInfo, PriceBias.Highest, false)
-        .minus(bank.getPrice(priceInfo, PriceBias.None, false));
+        .getPriceForRequirement(priceInfo, MarginRequirementType.Maintenance, PriceBias.Highest)
+        .minus(bank.getPriceForRequirement(priceInfo, MarginRequirementType.Maintenance, PriceBias.None));
       liquidationPrice = assets.minus(liabilities).div(liabQuantitiesUi.times(liabWeight)).minus(priceConfidence);
     }
     if (liquidationPrice.isNaN() || liquidationPrice.lt(0)) return null;
     return liquidationPrice.toNumber();
   }
 
+  /**
+   * Calculate the base asset price at which maintenance health reaches zero when every bank in `correlatedBanks` moves
+   * together with that base asset, all other prices constant.
+   *
+   * Each bank's price is `ratio * basePrice`. When `ratio` is omitted it is derived from current oracle prices relative
+   * to the first entry, so the result is expressed in units of the first bank's price. Confidence intervals keep their
+   * current ratio to the price.
+   */
+  public computeLiquidationPriceForCorrelatedBanks(
+    banks: Map<string, Bank>,
+    oraclePrices: Map<string, OraclePrice>,
+    correlatedBanks: CorrelatedBank[]
+  ): number | null {
+    if (correlatedBanks.length === 0) return null;
+
+    const correlatedBankAddresses = correlatedBanks.map((c) => c.bankAddress);
+    const { assets, liabilities } = this.computeHealthComponents(
+      banks,
+      oraclePrices,
+      MarginRequirementType.Maintenance,
+      correlatedBankAddresses
+    );
+
+    const referencePriceInfo = oraclePrices.get(correlatedBanks[0].bankAddress.toBase58());
+    if (!referencePriceInfo) throw Error(`Price info for ${correlatedBanks[0].bankAddress.toBase58()} not found`);
+    const referencePrice = referencePriceInfo.priceRealtime.price.div(correlatedBanks[0].ratio ?? 1);
+
+    // Maintenance health is linear in the base price: health = assets - liabilities + sensitivity * basePrice
+    let sensitivity = new BigNumber(0);
+    for (const { bankAddress, ratio } of correlatedBanks) {
+      const bank = banks.get(bankAddress.toBase58());
+      if (!bank) throw Error(`Bank ${bankAddress.toBase58()} not found`);
+      const priceInfo = oraclePrices.get(bankAddress.toBase58());
+      if (!priceInfo) throw Error(`Price info for ${bankAddress.toBase58()} not found`);
+
+      const balance = this.getBalance(bankAddress);
+      if (!balance.active) continue;
+
+      const price = bank.getPriceForRequirement(priceInfo, MarginRequirementType.Maintenance, PriceBias.None);
+      if (price.isZero()) continue;
+      const bankRatio = ratio !== undefined ? new BigNumber(ratio) : price.div(referencePrice);
+      const { assets: assetQuantityUi, liabilities: liabQuantitiesUi } = balance.computeQuantityUi(bank);
+
+      const lowestPriceRatio = bank
+        .getPriceForRequirement(priceInfo, MarginRequirementType.Maintenance, PriceBias.Lowest)
+        .div(price);
+      const highestPriceRatio = bank
+        .getPriceForRequirement(priceInfo, MarginRequirementType.Maintenance, PriceBias.Highest)
+        .div(price);
+      const assetWeight = bank.getAssetWeight(MarginRequirementType.Maintenance, priceInfo);
+      const liabWeight = bank.getLiabilityWeight(MarginRequirementType.Maintenance);
+
+      sensitivity = sensitivity
+        .plus(assetQuantityUi.times(assetWeight).times(lowestPriceRatio).times(bankRatio))
+        .minus(liabQuantitiesUi.times(liabWeight).times(highestPriceRatio).times(bankRatio));
+    }
+
+    if (sensitivity.isZero()) return null;
+    const liquidationPrice = liabilities.minus(assets).div(sensitivity);
+    if (liquidationPrice.isNaN() || liquidationPrice.lte(0)) return null;
+    return liquidationPrice.toNumber();
+  }
+
   /**
    * Calculate the price at which the user position for the given bank and amount will lead to liquidation, all other prices constant.
    */
@@ -497,14 +659,14 @@ class MarginfiAccount {
 
       const assetWeight = bank.getAssetWeight(MarginRequirementType.Maintenance, priceInfo);
       const priceConfidence = bank
-        .getPrice(priceInfo, PriceBias.None, false)
-        .minus(bank.getPrice(priceInfo, PriceBias.Lowest, false));
+        .getPriceForRequirement(priceInfo, MarginRequirementType.Maintenance, PriceBias.None)
+        .minus(bank.getPriceForRequirement(priceInfo, MarginRequirementType.Maintenance, PriceBias.Lowest));
       liquidationPrice = liabilities.minus(assets).div(amountBn.times(assetWeight)).plus(priceConfidence);
     } else {
       const liabWeight = bank.getLiabilityWeight(MarginRequirementType.Maintenance);
       const priceConfidence = bank
-        .getPrice(priceInfo, PriceBias.Highest, false)
-        .minus(bank.getPrice(priceInfo, PriceBias.None, false));
+        .getPriceForRequirement(priceInfo, MarginRequirementType.Maintenance, PriceBias.Highest)
+        .minus(bank.getPriceForRequirement(priceInfo, MarginRequirementType.Maintenance, PriceBias.None));
       liquidationPrice = assets.minus(liabilities).div(amountBn.times(liabWeight)).minus(priceConfidence);
     }
     if (liquidationPrice.isNaN() || liquidationPrice.lt(0)) return null;
@@ -541,14 +703,30 @@ class MarginfiAccount {
     );
     const currentHealth = assets.minus(liabilities);
 
-    const priceAssetLower = assetBank.getPrice(assetPriceInfo, PriceBias.Lowest, false);
-    const priceAssetMarket = assetBank.getPrice(assetPriceInfo, PriceBias.None, false);
+    const priceAssetLower = assetBank.getPriceForRequirement(
+      assetPriceInfo,
+      MarginRequirementType.Maintenance,
+      PriceBias.Lowest
+    );
+    const priceAssetMarket = assetBank.getPriceForRequirement(
+      assetPriceInfo,
+      MarginRequirementType.Maintenance,
+      PriceBias.None
+    );
     const assetMaintWeight = assetBank.config.assetWeightMaint;
 
     const liquidationDiscount = new BigNumber(0.95);
 
-    const priceLiabHighest = liabilityBank.getPrice(liabilityPriceInfo, PriceBias.Highest, false);
-    const priceLiabMarket = liabilityBank.getPrice(liabilityPriceInfo, PriceBias.None, false);
+    const priceLiabHighest = liabilityBank.getPriceForRequirement(
+      liabilityPriceInfo,
+      MarginRequirementType.Maintenance,
+      PriceBias.Highest
+    );
+    const priceLiabMarket = liabilityBank.getPriceForRequirement(
+      liabilityPriceInfo,
+      MarginRequirementType.Maintenance,
+      PriceBias.None
+    );
     const liabMaintWeight = liabilityBank.config.liabilityWeightMaint;
 
     debug(
@@ -875,6 +1053,40 @@ class MarginfiAccount {
     return { instructions: ixs, keys: [] };
   }
 
+  async makeCloseBalanceIx(
+    program: MarginfiProgram,
+    banks: Map<string, Bank>,
+    bankAddress: PublicKey
+  ): Promise<InstructionsWrapper> {
+    const bank = banks.get(bankAddress.toBase58());
+    if (!bank) throw Error(`Bank ${bankAddress.toBase58()} not found`);
+
+    const closeBalanceIx = await instructions.makeCloseBalanceIx(program, {
+      marginfiGroup: this.group,
+      marginfiAccount: this.address,
+      signer: this.authority,
+      bank: bank.address,
+    });
+
+    return { instructions: [closeBalanceIx], keys: [] };
+  }
+
+  async makeSettleEmissionsIx(
+    program: MarginfiProgram,
+    banks: Map<string, Bank>,
+    bankAddress: PublicKey
+  ): Promise<InstructionsWrapper> {
+    const bank = banks.get(bankAddress.toBase58());
+    if (!bank) throw Error(`Bank ${bankAddress.toBase58()} not found`);
+
+    const settleEmissionsIx = await instructions.makeSettleEmissionsIx(program, {
+      marginfiAccount: this.address,
+      bank: bank.address,
+    });
+
+    return { instructions: [settleEmissionsIx], keys: [] };
+  }
+
   async makeLendingAccountLiquidateIx(
     liquidateeMarginfiAccount: MarginfiAccount,
     program: MarginfiProgram,
@@ -903,16 +1115,8 @@ class MarginfiAccount {
       },
       { assetAmount: uiToNative(assetQuantityUi, assetBank.mintDecimals) },
       [
-        {
-          pubkey: assetBank.config.oracleKeys[0],
-          isSigner: false,
-          isWritable: false,
-        },
-        {
-          pubkey: liabilityBank.config.oracleKeys[0],
-          isSigner: false,
-          isWritable: false,
-        },
+        ...makeOracleAccountMetas(assetBank),
+        ...makeOracleAccountMetas(liabilityBank),
         ...this.getHealthCheckAccounts(banks, [liabilityBank, assetBank]),
         ...liquidateeMarginfiAccount.getHealthCheckAccounts(banks),
       ]
@@ -1060,8 +1264,42 @@ enum MarginRequirementType {
   Equity = 2,
 }
 
-export function isWeightedPrice(reqType: MarginRequirementType): boolean {
-  return reqType === MarginRequirementType.Initial;
+interface EmissionsPrice {
+  /** USD price of one UI unit of the emissions mint */
+  price: BigNumber.Value;
+  decimals: number;
+}
+
+interface BalanceApyBreakdown {
+  bankAddress: PublicKey;
+  assetUsdValue: BigNumber;
+  liabilityUsdValue: BigNumber;
+  lendingApr: BigNumber;
+  borrowingApr: BigNumber;
+  lendingEmissionsApr: BigNumber;
+  borrowingEmissionsApr: BigNumber;
+}
+
+interface NetApyBreakdown {
+  balances: BalanceApyBreakdown[];
+  /** Net interest earned minus paid, relative to the account's net USD value */
+  interestApr: BigNumber;
+  /** Emissions earned on both sides, relative to the account's net USD value */
+  emissionsApr: BigNumber;
+  netApr: BigNumber;
+  netApy: number;
+}
+
+interface CorrelatedBank {
+  bankAddress: PublicKey;
+  ratio?: number;
+}
+
+export function isWeightedPrice(reqType: MarginRequirementType, confidencePolicy?: OracleConfidencePolicy): boolean {
+  const weightedPriceRequirementTypes = confidencePolicy?.weightedPriceRequirementTypes ?? [
+    MarginRequirementType.Initial,
+  ];
+  return weightedPriceRequirementTypes.includes(reqType);
 }
 
 export function makeHealthAccountMetas(banks: Map<string, Bank>, banksToInclude: PublicKey[]): AccountMeta[] {
@@ -1074,13 +1312,18 @@ export function makeHealthAccountMetas(banks: Map<string, Bank>, banksToInclude:
         isSigner: false,
         isWritable: false,
       },
-      {
-        pubkey: bank.config.oracleKeys[0],
-        isSigner: false,
-        isWritable: false,
-      },
+      ...makeOracleAccountMetas(bank),
     ];
   });
 }
 
+function makeOracleAccountMetas(bank: Bank): AccountMeta[] {
+  return getActiveOracleKeys(bank.config.oracleKeys).map((oracleKey) => ({
+    pubkey: oracleKey,
+    isSigner: false,
+    isWritable: false,
+  }));
+}
+
 export { MarginfiAccount, MarginRequirementType };
+export type { CorrelatedBank, EmissionsPrice, BalanceApyBreakdown, NetApyBreakdown };
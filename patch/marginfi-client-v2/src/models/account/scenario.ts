@@ -0,0 +1,101 @@
+import { shortenAddress } from "@mrgnlabs/mrgn-common";
+import { PublicKey } from "@solana/web3.js";
+import BigNumber from "bignumber.js";
+import { Bank } from "../bank";
+import { OraclePrice, PriceShock, applyPriceShock } from "../price";
+import { AccountAction, simulateAccountActions } from "./simulation";
+import { MarginfiAccount, MarginRequirementType } from "./pure";
+
+// ----------------------------------------------------------------------------
+// Client types
+// ----------------------------------------------------------------------------
+
+type BankPriceShock = PriceShock & { bankAddress: PublicKey };
+
+/**
+ * One step of a what-if scenario. Price shocks are applied first, on top of the prices left by previous
+ * steps, then the position changes are applied to the account projected so far.
+ */
+interface ScenarioStep {
+  label?: string;
+  priceShocks?: BankPriceShock[];
+  actions?: AccountAction[];
+}
+
+interface HealthComponents {
+  assets: BigNumber;
+  liabilities: BigNumber;
+}
+
+interface ScenarioStepResult {
+  label?: string;
+  marginfiAccount: MarginfiAccount;
+  banks: Map<string, Bank>;
+  oraclePrices: Map<string, OraclePrice>;
+  initHealth: HealthComponents;
+  maintHealth: HealthComponents;
+  freeCollateral: BigNumber;
+  isLiquidatable: boolean;
+}
+
+// ----------------------------------------------------------------------------
+// Scenario runner
+// ----------------------------------------------------------------------------
+
+/**
+ * Runs `steps` sequentially against copies of the account, banks and oracle prices, reporting health after
+ * each step. Inputs are never mutated.
+ */
+function runScenario(
+  marginfiAccount: MarginfiAccount,
+  banks: Map<string, Bank>,
+  oraclePrices: Map<string, OraclePrice>,
+  steps: ScenarioStep[]
+): ScenarioStepResult[] {
+  let currentAccount = marginfiAccount;
+  let currentBanks = banks;
+  let currentPrices = oraclePrices;
+
+  return steps.map((step) => {
+    if (step.priceShocks && step.priceShocks.length > 0) {
+      currentPrices = new Map(currentPrices);
+      for (const shock of step.priceShocks) {
+        const oraclePrice = currentPrices.get(shock.bankAddress.toBase58());
+        if (!oraclePrice) throw Error(`Price info for ${shortenAddress(shock.bankAddress)} not found`);
+        currentPrices.set(shock.bankAddress.toBase58(), applyPriceShock(oraclePrice, shock));
+      }
+    }
+
+    if (step.actions && step.actions.length > 0) {
+      const projected = simulateAccountActions(currentAccount, currentBanks, currentPrices, step.actions);
+      currentAccount = projected.marginfiAccount;
+      currentBanks = projected.banks;
+    }
+
+    return computeScenarioStepResult(step.label, currentAccount, currentBanks, currentPrices);
+  });
+}
+
+function computeScenarioStepResult(
+  label: string | undefined,
+  marginfiAccount: MarginfiAccount,
+  banks: Map<string, Bank>,
+  oraclePrices: Map<string, OraclePrice>
+): ScenarioStepResult {
+  const initHealth = marginfiAccount.computeHealthComponents(banks, oraclePrices, MarginRequirementType.Initial);
+  const maintHealth = marginfiAccount.computeHealthComponents(banks, oraclePrices, MarginRequirementType.Maintenance);
+
+  return {
+    label,
+    marginfiAccount,
+    banks,
+    oraclePrices,
+    initHealth,
+    maintHealth,
+    freeCollateral: BigNumber.max(0, initHealth.assets.minus(initHealth.liabilities)),
+    isLiquidatable: maintHealth.assets.lt(maintHealth.liabilities),
+  };
+}
+
+export { runScenario };
+export type { BankPriceShock, ScenarioStep, ScenarioStepResult, HealthComponents };
@@ -0,0 +1,337 @@
+import { Amount, shortenAddress, uiToNativeBigNumber } from "@mrgnlabs/mrgn-common";
+import { PublicKey } from "@solana/web3.js";
+import BigNumber from "bignumber.js";
+import { Bank, OperationalState, RiskTier } from "../bank";
+import { Balance } from "../balance";
+import { OraclePrice, PriceBias } from "../price";
+import { MarginRequirementType } from "./pure";
+import type { MarginfiAccount } from "./pure";
+
+const MAX_BALANCES = 16;
+const LIQUIDATION_LIQUIDATOR_FEE = 0.025;
+const LIQUIDATION_INSURANCE_FEE = 0.025;
+
+// ----------------------------------------------------------------------------
+// Client types
+// ----------------------------------------------------------------------------
+
+enum AccountActionType {
+  Deposit = "Deposit",
+  Withdraw = "Withdraw",
+  Borrow = "Borrow",
+  Repay = "Repay",
+  Liquidate = "Liquidate",
+}
+
+interface DepositAction {
+  type: AccountActionType.Deposit;
+  bankAddress: PublicKey;
+  amount: Amount;
+}
+
+interface WithdrawAction {
+  type: AccountActionType.Withdraw;
+  bankAddress: PublicKey;
+  amount: Amount;
+  withdrawAll?: boolean;
+}
+
+interface BorrowAction {
+  type: AccountActionType.Borrow;
+  bankAddress: PublicKey;
+  amount: Amount;
+}
+
+interface RepayAction {
+  type: AccountActionType.Repay;
+  bankAddress: PublicKey;
+  amount: Amount;
+  repayAll?: boolean;
+}
+
+/**
+ * Liquidation of the simulated account (liquidatee side). `assetAmount` is the UI amount of collateral
+ * seized from `assetBankAddress`; the matching liability reduction on `liabilityBankAddress` is derived
+ * from realtime oracle prices net of the liquidator and insurance fees, as the program does.
+ */
+interface LiquidateAction {
+  type: AccountActionType.Liquidate;
+  assetBankAddress: PublicKey;
+  liabilityBankAddress: PublicKey;
+  assetAmount: Amount;
+}
+
+type AccountAction = DepositAction | WithdrawAction | BorrowAction | RepayAction | LiquidateAction;
+
+interface AccountSimulationResult {
+  marginfiAccount: MarginfiAccount;
+  banks: Map<string, Bank>;
+}
+
+type BalanceIncreaseType = "Any" | "DepositOnly" | "RepayOnly";
+type BalanceDecreaseType = "Any" | "WithdrawOnly" | "BorrowOnly";
+
+// ----------------------------------------------------------------------------
+// Simulation
+// ----------------------------------------------------------------------------
+
+/**
+ * Applies a sequence of actions to a copy of `marginfiAccount` and the banks it touches, entirely in memory.
+ * Balance and bank share accounting mirrors the on-chain lending account logic (including deposit/borrow
+ * limits, operational state and isolated tier checks), but no health check is enforced so that unhealthy
+ * end states can still be inspected. Inputs are never mutated.
+ */
+function simulateAccountActions(
+  marginfiAccount: MarginfiAccount,
+  banks: Map<string, Bank>,
+  oraclePrices: Map<string, OraclePrice>,
+  actions: AccountAction[]
+): AccountSimulationResult {
+  const projectedAccount = marginfiAccount.clone();
+  const projectedBanks = new Map(banks);
+  const touchedBanks = new Set<string>();
+
+  const getBank = (bankAddress: PublicKey): Bank => {
+    const key = bankAddress.toBase58();
+    const bank = projectedBanks.get(key);
+    if (!bank) throw Error(`Bank ${shortenAddress(bankAddress)} not found`);
+    if (touchedBanks.has(key)) return bank;
+
+    const bankCopy = bank.clone();
+    projectedBanks.set(key, bankCopy);
+    touchedBanks.add(key);
+    return bankCopy;
+  };
+
+  for (const action of actions) {
+    switch (action.type) {
+      case AccountActionType.Deposit: {
+        const bank = getBank(action.bankAddress);
+        assertOperational(bank, false);
+        const balance = findOrCreateBalance(projectedAccount, bank);
+        increaseBalance(balance, bank, uiToNativeBigNumber(action.amount, bank.mintDecimals), "DepositOnly");
+        assertDepositLimit(bank);
+        break;
+      }
+      case AccountActionType.Repay: {
+        const bank = getBank(action.bankAddress);
+        assertOperational(bank, true);
+        const balance = findBalance(projectedAccount, bank.address);
+        if (action.repayAll) {
+          closeBalance(balance, bank, "liabilities");
+        } else {
+          increaseBalance(balance, bank, uiToNativeBigNumber(action.amount, bank.mintDecimals), "RepayOnly");
+        }
+        break;
+      }
+      case AccountActionType.Withdraw: {
+        const bank = getBank(action.bankAddress);
+        assertOperational(bank, true);
+        const balance = findBalance(projectedAccount, bank.address);
+        if (action.withdrawAll) {
+          closeBalance(balance, bank, "assets");
+        } else {
+          decreaseBalance(balance, bank, uiToNativeBigNumber(action.amount, bank.mintDecimals), "WithdrawOnly");
+        }
+        break;
+      }
+      case AccountActionType.Borrow: {
+        const bank = getBank(action.bankAddress);
+        assertOperational(bank, false);
+        const balance = findOrCreateBalance(projectedAccount, bank);
+        decreaseBalance(balance, bank, uiToNativeBigNumber(action.amount, bank.mintDecimals), "BorrowOnly");
+        assertBorrowLimit(bank);
+        assertIsolatedTier(projectedAccount, projectedBanks);
+        break;
+      }
+      case AccountActionType.Liquidate: {
+        if (action.assetBankAddress.equals(action.liabilityBankAddress)) {
+          throw Error("Cannot liquidate a liability against collateral in the same bank");
+        }
+        const assetBank = getBank(action.assetBankAddress);
+        assertOperational(assetBank, true);
+        const liabilityBank = getBank(action.liabilityBankAddress);
+        assertOperational(liabilityBank, true);
+
+        const assetPriceInfo = oraclePrices.get(assetBank.address.toBase58());
+        if (!assetPriceInfo) throw Error(`Price info for ${shortenAddress(assetBank.address)} not found`);
+        const liabilityPriceInfo = oraclePrices.get(liabilityBank.address.toBase58());
+        if (!liabilityPriceInfo) throw Error(`Price info for ${shortenAddress(liabilityBank.address)} not found`);
+
+        const assetPrice = assetBank.getPriceForRequirement(
+          assetPriceInfo,
+          MarginRequirementType.Maintenance,
+          PriceBias.None
+        );
+        const liabilityPrice = liabilityBank.getPriceForRequirement(
+          liabilityPriceInfo,
+          MarginRequirementType.Maintenance,
+          PriceBias.None
+        );
+
+        const assetQuantity = uiToNativeBigNumber(action.assetAmount, assetBank.mintDecimals);
+        const liabilityQuantity = assetQuantity
+          .times(assetPrice)
+          .div(liabilityPrice)
+          .shiftedBy(liabilityBank.mintDecimals - assetBank.mintDecimals)
+          .times(1 - LIQUIDATION_LIQUIDATOR_FEE - LIQUIDATION_INSURANCE_FEE);
+
+        // The program rejects liquidations seizing more than the deposit or repaying more than the debt
+        decreaseBalance(findBalance(projectedAccount, assetBank.address), assetBank, assetQuantity, "WithdrawOnly");
+        increaseBalance(
+          findBalance(projectedAccount, liabilityBank.address),
+          liabilityBank,
+          liabilityQuantity,
+          "RepayOnly"
+        );
+
+        // The liquidator takes the seized collateral as a deposit and the discounted liability as a borrow
+        // in the same banks, so bank-level totals only move by what leaves for the insurance fund.
+        const liquidatorLiabilityQuantity = assetQuantity
+          .times(assetPrice)
+          .div(liabilityPrice)
+          .shiftedBy(liabilityBank.mintDecimals - assetBank.mintDecimals)
+          .times(1 - LIQUIDATION_LIQUIDATOR_FEE);
+        assetBank.totalAssetShares = assetBank.totalAssetShares.plus(assetBank.getAssetShares(assetQuantity));
+        liabilityBank.totalLiabilityShares = liabilityBank.totalLiabilityShares.plus(
+          liabilityBank.getLiabilityShares(liquidatorLiabilityQuantity)
+        );
+        break;
+      }
+    }
+  }
+
+  return { marginfiAccount: projectedAccount, banks: projectedBanks };
+}
+
+// ----------------------------------------------------------------------------
+// Helpers
+// ----------------------------------------------------------------------------
+
+function findBalance(marginfiAccount: MarginfiAccount, bankAddress: PublicKey): Balance {
+  const balance = marginfiAccount.balances.find((b) => b.active && b.bankPk.equals(bankAddress));
+  if (!balance) throw Error(`No active balance for bank ${shortenAddress(bankAddress)}`);
+  return balance;
+}
+
+/**
+ * New balances are stamped with the bank's `lastUpdate` rather than the local clock, keeping simulations reproducible.
+ */
+function findOrCreateBalance(marginfiAccount: MarginfiAccount, bank: Bank): Balance {
+  const existing = marginfiAccount.balances.find((b) => b.active && b.bankPk.equals(bank.address));
+  if (existing) return existing;
+
+  const balance = new Balance(true, bank.address, new BigNumber(0), new BigNumber(0), new BigNumber(0), bank.lastUpdate);
+  const emptyIndex = marginfiAccount.balances.findIndex((b) => !b.active);
+  if (emptyIndex !== -1) {
+    marginfiAccount.balances[emptyIndex] = balance;
+  } else if (marginfiAccount.balances.length < MAX_BALANCES) {
+    marginfiAccount.balances.push(balance);
+  } else {
+    throw Error("No empty lending account balance slot available");
+  }
+  return balance;
+}
+
+function increaseBalance(balance: Balance, bank: Bank, amount: BigNumber, increaseType: BalanceIncreaseType) {
+  const liabilityQuantity = bank.getLiabilityQuantity(balance.liabilityShares);
+  const liabilityDecrease = BigNumber.min(liabilityQuantity, amount);
+  const assetIncrease = amount.minus(liabilityDecrease);
+
+  if (increaseType === "DepositOnly" && liabilityDecrease.gt(0)) {
+    throw Error(`Deposit would repay an outstanding liability in bank ${shortenAddress(bank.address)}`);
+  }
+  if (increaseType === "RepayOnly" && assetIncrease.gt(0)) {
+    throw Error(`Repay exceeds the outstanding liability in bank ${shortenAddress(bank.address)}`);
+  }
+
+  changeLiabilityShares(balance, bank, bank.getLiabilityShares(liabilityDecrease).negated());
+  changeAssetShares(balance, bank, bank.getAssetShares(assetIncrease));
+}
+
+function decreaseBalance(balance: Balance, bank: Bank, amount: BigNumber, decreaseType: BalanceDecreaseType) {
+  const assetQuantity = bank.getAssetQuantity(balance.assetShares);
+  const assetDecrease = BigNumber.min(assetQuantity, amount);
+  const liabilityIncrease = amount.minus(assetDecrease);
+
+  if (decreaseType === "WithdrawOnly" && liabilityIncrease.gt(0)) {
+    throw Error(`Withdraw exceeds the deposited amount in bank ${shortenAddress(bank.address)}`);
+  }
+  if (decreaseType === "BorrowOnly" && assetDecrease.gt(0)) {
+    throw Error(`Borrow would withdraw an existing deposit in bank ${shortenAddress(bank.address)}`);
+  }
+
+  changeAssetShares(balance, bank, bank.getAssetShares(assetDecrease).negated());
+  changeLiabilityShares(balance, bank, bank.getLiabilityShares(liabilityIncrease));
+}
+
+function closeBalance(balance: Balance, bank: Bank, side: "assets" | "liabilities") {
+  if (side === "assets" && balance.liabilityShares.gt(0)) {
+    throw Error(`Cannot withdraw all from bank ${shortenAddress(bank.address)} with an outstanding liability`);
+  }
+  if (side === "liabilities" && balance.assetShares.gt(0)) {
+    throw Error(`Cannot repay all in bank ${shortenAddress(bank.address)} with an outstanding deposit`);
+  }
+
+  changeAssetShares(balance, bank, balance.assetShares.negated());
+  changeLiabilityShares(balance, bank, balance.liabilityShares.negated());
+  balance.active = false;
+  balance.emissionsOutstanding = new BigNumber(0);
+}
+
+function changeAssetShares(balance: Balance, bank: Bank, shares: BigNumber) {
+  balance.assetShares = balance.assetShares.plus(shares);
+  bank.totalAssetShares = bank.totalAssetShares.plus(shares);
+}
+
+function changeLiabilityShares(balance: Balance, bank: Bank, shares: BigNumber) {
+  balance.liabilityShares = balance.liabilityShares.plus(shares);
+  bank.totalLiabilityShares = bank.totalLiabilityShares.plus(shares);
+}
+
+function assertOperational(bank: Bank, reducing: boolean) {
+  const state = bank.config.operationalState;
+  if (state === OperationalState.Paused) {
+    throw Error(`Bank ${shortenAddress(bank.address)} is paused`);
+  }
+  if (state === OperationalState.ReduceOnly && !reducing) {
+    throw Error(`Bank ${shortenAddress(bank.address)} is in reduce-only mode`);
+  }
+}
+
+function assertDepositLimit(bank: Bank) {
+  if (bank.getTotalAssetQuantity().gt(bank.config.depositLimit)) {
+    throw Error(`Deposit limit exceeded for bank ${shortenAddress(bank.address)}`);
+  }
+}
+
+function assertBorrowLimit(bank: Bank) {
+  if (bank.getTotalLiabilityQuantity().gt(bank.config.borrowLimit)) {
+    throw Error(`Borrow limit exceeded for bank ${shortenAddress(bank.address)}`);
+  }
+}
+
+function assertIsolatedTier(marginfiAccount: MarginfiAccount, banks: Map<string, Bank>) {
+  const liabilityBanks = marginfiAccount.activeBalances
+    .filter((b) => b.liabilityShares.gt(0))
+    .map((b) => {
+      const bank = banks.get(b.bankPk.toBase58());
+      if (!bank) throw Error(`Bank ${shortenAddress(b.bankPk)} not found`);
+      return bank;
+    });
+
+  if (liabilityBanks.length > 1 && liabilityBanks.some((bank) => bank.config.riskTier === RiskTier.Isolated)) {
+    throw Error("Isolated tier liabilities cannot be combined with other liabilities");
+  }
+}
+
+export { simulateAccountActions, AccountActionType };
+export type {
+  AccountAction,
+  DepositAction,
+  WithdrawAction,
+  BorrowAction,
+  RepayAction,
+  LiquidateAction,
+  AccountSimulationResult,
+};
@@ -1,4 +1,11 @@
-import { Amount, DEFAULT_COMMITMENT, InstructionsWrapper, Wallet, shortenAddress } from "@mrgnlabs/mrgn-common";
+import {
+  Amount,
+  DEFAULT_COMMITMENT,
+  InstructionsWrapper,
+  Wallet,
+  shortenAddress,
+  uiToNativeBigNumber,
+} from "@mrgnlabs/mrgn-common";
 import { Address, BorshCoder, translateAddress } from "@coral-xyz/anchor";
 import {
   AccountMeta,
@@ -16,10 +23,34 @@ import {
 import BigNumber from "bignumber.js";
 import { MarginfiClient, MarginfiGroup } from "../..";
 import { MARGINFI_IDL } from "../../idl";
-import { AccountType, MarginfiConfig, MarginfiProgram } from "../../types";
-import { MarginfiAccount, MarginRequirementType, MarginfiAccountRaw } from "./pure";
-import { Bank } from "../bank";
+import { REPAY_ALL_INTEREST_BUFFER_SEC } from "../../constants";
+import { AccountSubscriptionConnection, AccountType, MarginfiConfig, MarginfiProgram } from "../../types";
+import {
+  CorrelatedBank,
+  EmissionsPrice,
+  MarginfiAccount,
+  MarginRequirementType,
+  MarginfiAccountRaw,
+  NetApyBreakdown,
+} from "./pure";
+import { AccountAction, AccountActionType, AccountSimulationResult, simulateAccountActions } from "./simulation";
+import { HealthComponents, ScenarioStep, ScenarioStepResult, runScenario } from "./scenario";
+import { GrowthProjection, GrowthProjectionOptions, projectAccountGrowth } from "./projection";
+import {
+  LoopArgs,
+  LoopResult,
+  UnwindArgs,
+  UnwindResult,
+  computeLeverage,
+  computeLoopBorrowAmount,
+  computeMaxLeverage,
+  computeRepayAllSwapAmount,
+  computeSwapInputAmount,
+  computeUnwindWithdrawAmount,
+} from "./leverage";
+import { Bank, InterestRatePoint } from "../bank";
 import { Balance } from "../balance";
+import { SwapMode, SwapProvider, SwapQuote } from "../../swap";
 import debug from "debug";
 
 export interface SimulationResult {
@@ -27,12 +58,111 @@ export interface SimulationResult {
   marginfiAccount: MarginfiAccountWrapper;
 }
 
+export enum HealthThresholdDirection {
+  Below = "Below",
+  Above = "Above",
+}
+
+export interface HealthThresholdCrossing {
+  threshold: number;
+  direction: HealthThresholdDirection;
+  health: number;
+  previousHealth: number;
+}
+
+export interface AccountSubscriptionOptions {
+  /** Maintenance health levels, as `(assets - liabilities) / assets`, to be alerted on when crossed */
+  thresholds?: number[];
+  onThresholdCrossed?: (crossing: HealthThresholdCrossing) => void;
+  onHealthChange?: (health: number, previousHealth: number | null) => void;
+  connection?: AccountSubscriptionConnection;
+  commitment?: Commitment;
+  onError?: (error: unknown) => void;
+}
+
+export interface AccountSubscription {
+  /** Recompute health against the client's current banks and prices, e.g. after a client price update */
+  checkHealth(): void;
+  unsubscribe(): Promise<void>;
+}
+
 export interface FlashLoanArgs {
   ixs: TransactionInstruction[];
   signers?: Signer[];
   addressLookupTableAccounts?: AddressLookupTableAccount[];
 }
 
+export interface RepayWithCollatArgs {
+  /** Bank the collateral is withdrawn from */
+  withdrawBankAddress: PublicKey;
+  repayBankAddress: PublicKey;
+  /** UI amount of debt to repay, ignored with `repayAll` */
+  repayAmount: Amount;
+  repayAll?: boolean;
+  /** With `repayAll`, interest accrued over this window is bought on top of the debt. Defaults to 5 minutes */
+  interestBufferSeconds?: number;
+  /** Withdraw the whole collateral balance, the part not swapped stays in the wallet */
+  withdrawAll?: boolean;
+  swapProvider: SwapProvider;
+  slippageBps: number;
+  priorityFeeUi?: number;
+}
+
+export interface RepayWithCollatResult {
+  transaction: VersionedTransaction;
+  /** UI amount of collateral withdrawn, the most the ExactOut swap may consume unless `withdrawAll` */
+  withdrawAmount: BigNumber;
+  /** UI amount of debt repaid, accrued to now with `repayAll` while the swap also covers the interest buffer */
+  repayAmount: BigNumber;
+  quote: SwapQuote;
+}
+
+export interface CollateralSwapArgs {
+  withdrawBankAddress: PublicKey;
+  depositBankAddress: PublicKey;
+  /** UI amount of the withdrawn bank's token to swap, ignored with `withdrawAll` */
+  amount: Amount;
+  withdrawAll?: boolean;
+  swapProvider: SwapProvider;
+  slippageBps: number;
+  priorityFeeUi?: number;
+}
+
+export interface CollateralSwapResult {
+  transaction: VersionedTransaction;
+  withdrawAmount: BigNumber;
+  /** UI amount deposited, the minimum swap output */
+  depositAmount: BigNumber;
+  quote: SwapQuote;
+  /** Health components of the account once the transaction lands, if the swap fills at its minimum output */
+  initHealth: HealthComponents;
+  maintenanceHealth: HealthComponents;
+}
+
+export interface DebtSwapArgs {
+  /** Bank whose liability is repaid in full */
+  repayBankAddress: PublicKey;
+  /** Bank the debt is moved to */
+  borrowBankAddress: PublicKey;
+  swapProvider: SwapProvider;
+  slippageBps: number;
+  priorityFeeUi?: number;
+}
+
+export interface DebtSwapResult {
+  transaction: VersionedTransaction;
+  /** UI amount borrowed from the new bank and swapped into the repaid token */
+  borrowAmount: BigNumber;
+  /** UI amount owed to the repaid bank, interest accrued to now */
+  repayAmount: BigNumber;
+  quote: SwapQuote;
+  /** Rates currently paid on the repaid bank */
+  previousBorrowRate: InterestRatePoint;
+  /** Rates of the new bank once the borrow lands */
+  newBorrowRate: InterestRatePoint;
+  initHealth: HealthComponents;
+}
+
 class MarginfiAccountWrapper {
   public address: PublicKey;
 
@@ -189,6 +319,18 @@ class MarginfiAccountWrapper {
     return this._marginfiAccount.computeAccountValue(this.client.banks, this.client.oraclePrices);
   }
 
+  public projectActions(actions: AccountAction[]): AccountSimulationResult {
+    return this._marginfiAccount.projectActions(this.client.banks, this.client.oraclePrices, actions);
+  }
+
+  public runScenario(steps: ScenarioStep[]): ScenarioStepResult[] {
+    return runScenario(this._marginfiAccount, this.client.banks, this.client.oraclePrices, steps);
+  }
+
+  public projectGrowth(opts?: GrowthProjectionOptions): GrowthProjection {
+    return projectAccountGrowth(this._marginfiAccount, this.client.banks, this.client.oraclePrices, opts);
+  }
+
   public computeMaxBorrowForBank(bankAddress: PublicKey, opts?: { volatilityFactor?: number }): BigNumber {
     return this._marginfiAccount.computeMaxBorrowForBank(
       this.client.banks,
@@ -224,6 +366,14 @@ class MarginfiAccountWrapper {
     );
   }
 
+  public computeLiquidationPriceForCorrelatedBanks(correlatedBanks: CorrelatedBank[]): number | null {
+    return this._marginfiAccount.computeLiquidationPriceForCorrelatedBanks(
+      this.client.banks,
+      this.client.oraclePrices,
+      correlatedBanks
+    );
+  }
+
   public computeLiquidationPriceForBankAmount(
     bankAddress: PublicKey,
     isLending: boolean,
@@ -242,6 +392,10 @@ class MarginfiAccountWrapper {
     return this._marginfiAccount.computeNetApy(this.client.banks, this.client.oraclePrices);
   }
 
+  public computeNetApyBreakdown(emissionsPrices?: Map<string, EmissionsPrice>): NetApyBreakdown {
+    return this._marginfiAccount.computeNetApyBreakdown(this.client.banks, this.client.oraclePrices, emissionsPrices);
+  }
+
   makePriorityFeeIx(priorityFeeUi?: number): TransactionInstruction[] {
     const priorityFeeIx: TransactionInstruction[] = [];
     const limitCU = 1_400_000;
@@ -319,18 +473,45 @@ class MarginfiAccountWrapper {
     };
   }
 
+  /**
+   * Repay `repayBankAddress` with collateral withdrawn from `withdrawBankAddress` and swapped through
+   * `args.swapProvider`, see `makeRepayWithCollatTx`. The positional form takes pre-built swap instructions instead.
+   */
+  async repayWithCollat(args: RepayWithCollatArgs): Promise<string>;
   async repayWithCollat(
     amount: Amount,
     repayAmount: Amount,
     bankAddress: PublicKey,
     repayBankAddress: PublicKey,
-    withdrawAll: boolean = false,
-    repayAll: boolean = false,
+    withdrawAll: boolean | undefined,
+    repayAll: boolean | undefined,
     swapIxs: TransactionInstruction[],
     addressLookupTableAccounts: AddressLookupTableAccount[],
     priorityFeeUi?: number
+  ): Promise<string>;
+  async repayWithCollat(
+    amountOrArgs: Amount | RepayWithCollatArgs,
+    repayAmount?: Amount,
+    bankAddress?: PublicKey,
+    repayBankAddress?: PublicKey,
+    withdrawAll: boolean = false,
+    repayAll: boolean = false,
+    swapIxs: TransactionInstruction[] = [],
+    addressLookupTableAccounts: AddressLookupTableAccount[] = [],
+    priorityFeeUi?: number
   ): Promise<string> {
     const debug = require("debug")(`mfi:margin-account:${this.address.toString()}:repay`);
+    if (typeof amountOrArgs === "object" && "swapProvider" in amountOrArgs) {
+      const { transaction } = await this.makeRepayWithCollatTx(amountOrArgs);
+      const sig = await this.client.processTransaction(transaction, []);
+      debug("Repay with collateral successful %s", sig);
+      return sig;
+    }
+    if (repayAmount === undefined || !bankAddress || !repayBankAddress) {
+      throw Error("Repay amount and bank addresses are required");
+    }
+
+    const amount = amountOrArgs;
     debug("Repaying %s into marginfi account (bank: %s), repay all: %s", amount, bankAddress, repayAll);
     const cuRequestIxs = this.makeComputeBudgetIx();
     const priorityFeeIx = this.makePriorityFeeIx(priorityFeeUi);
@@ -348,6 +529,73 @@ class MarginfiAccountWrapper {
     return sig;
   }
 
+  /**
+   * Build a flash-loan transaction repaying `repayBankAddress` with collateral: withdraw from `withdrawBankAddress`,
+   * swap ExactOut into the repaid token and repay. The withdrawal covers the most the swap may consume after slippage,
+   * and with `repayAll` the swap buys the debt with interest accrued past now, since the program repays the debt
+   * accrued when the transaction lands. Swap output left over after repaying stays in the wallet.
+   */
+  async makeRepayWithCollatTx(args: RepayWithCollatArgs): Promise<RepayWithCollatResult> {
+    const debug = require("debug")(`mfi:margin-account:${this.address.toString()}:repay`);
+    const { withdrawBankAddress, repayBankAddress, repayAll = false, withdrawAll = false, swapProvider } = args;
+
+    const withdrawBank = this.client.getBankByPk(withdrawBankAddress);
+    if (!withdrawBank) throw Error(`Bank ${withdrawBankAddress.toBase58()} not found`);
+    const repayBank = this.client.getBankByPk(repayBankAddress);
+    if (!repayBank) throw Error(`Bank ${repayBankAddress.toBase58()} not found`);
+
+    const now = Math.floor(Date.now() / 1000);
+    const repayBalance = this._marginfiAccount.getBalance(repayBankAddress);
+    const debt = repayBalance.computeQuantityUi(repayBank.accrueInterest(now)).liabilities;
+    const repayAmount = repayAll ? debt : new BigNumber(args.repayAmount);
+    if (repayAmount.lte(0)) throw Error(`No debt to repay in bank ${repayBankAddress.toBase58()}`);
+    if (repayAmount.gt(debt)) throw Error(`Cannot repay ${repayAmount}, only ${debt} owed`);
+    const swapOutAmount = repayAll
+      ? computeRepayAllSwapAmount(
+          repayBank,
+          repayBalance,
+          now,
+          args.interestBufferSeconds ?? REPAY_ALL_INTEREST_BUFFER_SEC
+        )
+      : repayAmount;
+
+    const quote = await swapProvider.quote({
+      inputMint: withdrawBank.mint,
+      outputMint: repayBank.mint,
+      amount: swapOutAmount.shiftedBy(repayBank.mintDecimals).integerValue(BigNumber.ROUND_UP),
+      slippageBps: args.slippageBps,
+      swapMode: SwapMode.ExactOut,
+    });
+    const collateral = this._marginfiAccount
+      .getBalance(withdrawBankAddress)
+      .computeQuantityUi(withdrawBank.accrueInterest()).assets;
+    const withdrawAmount = withdrawAll
+      ? collateral.decimalPlaces(withdrawBank.mintDecimals, BigNumber.ROUND_DOWN)
+      : quote.maxInAmount.shiftedBy(-withdrawBank.mintDecimals);
+    if (quote.maxInAmount.shiftedBy(-withdrawBank.mintDecimals).gt(collateral)) {
+      throw Error(`Repaying ${repayAmount} needs more than the ${collateral} of collateral deposited`);
+    }
+    debug("Withdrawing %s of %s to repay %s of %s", withdrawAmount, withdrawBank.mint, repayAmount, repayBank.mint);
+
+    const swap = await swapProvider.buildSwap(quote, this.authority);
+    const priorityFeeIx = this.makePriorityFeeIx(args.priorityFeeUi);
+    const cuRequestIxs = this.makeComputeBudgetIx();
+    const withdrawIxs = await this.makeWithdrawIx(withdrawAmount, withdrawBankAddress, withdrawAll);
+    const repayIxs = await this.makeRepayIx(repayAmount, repayBankAddress, repayAll);
+    const transaction = await this.buildFlashLoanTx({
+      ixs: [
+        ...priorityFeeIx,
+        ...cuRequestIxs,
+        ...withdrawIxs.instructions,
+        ...swap.instructions,
+        ...repayIxs.instructions,
+      ],
+      addressLookupTableAccounts: [...this.client.addressLookupTables, ...swap.addressLookupTableAccounts],
+    });
+
+    return { transaction, withdrawAmount, repayAmount, quote };
+  }
+
   async simulateRepayWithCollat(
     amount: Amount,
     repayAmount: Amount,
@@ -389,6 +637,410 @@ class MarginfiAccountWrapper {
     };
   }
 
+  /**
+   * Build a flash-loan transaction opening a looped position: borrow from `borrowBankAddress`, swap the borrowed
+   * tokens into the deposit token and deposit them together with `principal`, sized to reach `targetLeverage`.
+   * Throws if the leverage exceeds what the bank weights allow or if the account would end up below its initial
+   * requirement.
+   */
+  async makeLoopTx(args: LoopArgs): Promise<LoopResult> {
+    const debug = require("debug")(`mfi:margin-account:${this.address.toString()}:loop`);
+    const { depositBankAddress, borrowBankAddress, principal, targetLeverage, swapProvider, slippageBps } = args;
+
+    const depositBank = this.client.getBankByPk(depositBankAddress);
+    if (!depositBank) throw Error(`Bank ${depositBankAddress.toBase58()} not found`);
+    const borrowBank = this.client.getBankByPk(borrowBankAddress);
+    if (!borrowBank) throw Error(`Bank ${borrowBankAddress.toBase58()} not found`);
+    const depositPriceInfo = this.client.getOraclePriceByBank(depositBankAddress);
+    if (!depositPriceInfo) throw Error(`Price info for ${depositBankAddress.toBase58()} not found`);
+    const borrowPriceInfo = this.client.getOraclePriceByBank(borrowBankAddress);
+    if (!borrowPriceInfo) throw Error(`Price info for ${borrowBankAddress.toBase58()} not found`);
+    // Refuse to size a leveraged borrow on outlier prices, every active balance feeds the health check
+    await this.client.checkPriceSanity([
+      borrowBankAddress,
+      depositBankAddress,
+      ...this.activeBalances.map((balance) => balance.bankPk),
+    ]);
+
+    const maxLeverage = computeMaxLeverage(depositBank, borrowBank, depositPriceInfo);
+    if (targetLeverage <= 1 || maxLeverage.lt(targetLeverage)) {
+      throw Error(`Target leverage ${targetLeverage} must be above 1 and at most ${maxLeverage.toFixed(2)}`);
+    }
+
+    const borrowAmount = computeLoopBorrowAmount(
+      depositBank,
+      borrowBank,
+      depositPriceInfo,
+      borrowPriceInfo,
+      principal,
+      targetLeverage,
+      slippageBps
+    );
+    const quote = await swapProvider.quote({
+      inputMint: borrowBank.mint,
+      outputMint: depositBank.mint,
+      amount: uiToNativeBigNumber(borrowAmount, borrowBank.mintDecimals),
+      slippageBps,
+    });
+    const depositAmount = new BigNumber(principal).plus(quote.minOutAmount.shiftedBy(-depositBank.mintDecimals));
+    debug("Looping %s of %s against %s of %s", depositAmount, depositBank.mint, borrowAmount, borrowBank.mint);
+
+    const projected = simulateAccountActions(this._marginfiAccount, this.client.banks, this.client.oraclePrices, [
+      { type: AccountActionType.Deposit, bankAddress: depositBankAddress, amount: depositAmount },
+      { type: AccountActionType.Borrow, bankAddress: borrowBankAddress, amount: borrowAmount },
+    ]);
+    const initHealth = projected.marginfiAccount.computeHealthComponents(
+      projected.banks,
+      this.client.oraclePrices,
+      MarginRequirementType.Initial
+    );
+    if (initHealth.assets.lt(initHealth.liabilities)) {
+      throw Error("Loop would leave the account below its initial margin requirement");
+    }
+
+    const swap = await swapProvider.buildSwap(quote, this.authority);
+    const priorityFeeIx = this.makePriorityFeeIx(args.priorityFeeUi);
+    const cuRequestIxs = this.makeComputeBudgetIx();
+    const borrowIxs = await this.makeBorrowIx(borrowAmount, borrowBankAddress, false);
+    const depositIxs = await this.makeDepositIx(depositAmount, depositBankAddress);
+    const transaction = await this.buildFlashLoanTx({
+      ixs: [
+        ...priorityFeeIx,
+        ...cuRequestIxs,
+        ...borrowIxs.instructions,
+        ...swap.instructions,
+        ...depositIxs.instructions,
+      ],
+      addressLookupTableAccounts: [...this.client.addressLookupTables, ...swap.addressLookupTableAccounts],
+    });
+
+    return {
+      transaction,
+      borrowAmount,
+      depositAmount,
+      quote,
+      leverage: computeLeverage(
+        depositBank,
+        borrowBank,
+        depositPriceInfo,
+        borrowPriceInfo,
+        depositAmount,
+        borrowAmount
+      ),
+      initHealth,
+    };
+  }
+
+  async loop(args: LoopArgs): Promise<string> {
+    const debug = require("debug")(`mfi:margin-account:${this.address.toString()}:loop`);
+    const { transaction } = await this.makeLoopTx(args);
+    const sig = await this.client.processTransaction(transaction, []);
+    debug("Loop successful %s", sig);
+    return sig;
+  }
+
+  /**
+   * Build a flash-loan transaction bringing a looped position down to `targetLeverage`: withdraw collateral from
+   * `depositBankAddress`, swap it into the debt token and repay `borrowBankAddress`. Balances include interest accrued
+   * to now. A target of 1 closes the position with `withdrawAll`/`repayAll`, the swap also covering the interest
+   * accrued until the transaction lands; leftover tokens stay in the wallet.
+   */
+  async makeUnwindTx(args: UnwindArgs): Promise<UnwindResult> {
+    const debug = require("debug")(`mfi:margin-account:${this.address.toString()}:unwind`);
+    const { depositBankAddress, borrowBankAddress, targetLeverage, swapProvider, slippageBps } = args;
+    if (targetLeverage < 1) throw Error(`Target leverage ${targetLeverage} must be at least 1`);
+
+    const now = Math.floor(Date.now() / 1000);
+    const depositBank = this.client.getBankByPk(depositBankAddress)?.accrueInterest(now);
+    if (!depositBank) throw Error(`Bank ${depositBankAddress.toBase58()} not found`);
+    const borrowBank = this.client.getBankByPk(borrowBankAddress)?.accrueInterest(now);
+    if (!borrowBank) throw Error(`Bank ${borrowBankAddress.toBase58()} not found`);
+    const depositPriceInfo = this.client.getOraclePriceByBank(depositBankAddress);
+    if (!depositPriceInfo) throw Error(`Price info for ${depositBankAddress.toBase58()} not found`);
+    const borrowPriceInfo = this.client.getOraclePriceByBank(borrowBankAddress);
+    if (!borrowPriceInfo) throw Error(`Price info for ${borrowBankAddress.toBase58()} not found`);
+
+    const borrowBalance = this._marginfiAccount.getBalance(borrowBankAddress);
+    const depositAmount = this._marginfiAccount.getBalance(depositBankAddress).computeQuantityUi(depositBank).assets;
+    const borrowAmount = borrowBalance.computeQuantityUi(borrowBank).liabilities;
+    if (borrowAmount.isZero()) throw Error(`No debt to unwind in bank ${borrowBankAddress.toBase58()}`);
+
+    const currentLeverage = computeLeverage(
+      depositBank,
+      borrowBank,
+      depositPriceInfo,
+      borrowPriceInfo,
+      depositAmount,
+      borrowAmount
+    );
+    if (currentLeverage.lte(targetLeverage)) {
+      throw Error(`Position is already at ${currentLeverage.toFixed(2)}x, below the ${targetLeverage}x target`);
+    }
+
+    const closed = targetLeverage === 1;
+    // Closing repays the debt accrued when the transaction lands, the swap must also cover interest until then
+    const debtToCover = closed
+      ? computeRepayAllSwapAmount(borrowBank, borrowBalance, now, REPAY_ALL_INTEREST_BUFFER_SEC)
+      : borrowAmount;
+    const withdrawAmount = computeUnwindWithdrawAmount(
+      depositBank,
+      borrowBank,
+      depositPriceInfo,
+      borrowPriceInfo,
+      depositAmount,
+      debtToCover,
+      targetLeverage,
+      slippageBps
+    );
+    const quote = await swapProvider.quote({
+      inputMint: depositBank.mint,
+      outputMint: borrowBank.mint,
+      amount: uiToNativeBigNumber(withdrawAmount, depositBank.mintDecimals),
+      slippageBps,
+    });
+    const minOutAmount = quote.minOutAmount.shiftedBy(-borrowBank.mintDecimals);
+    if (closed && minOutAmount.lt(debtToCover)) {
+      throw Error(`Collateral does not cover the ${debtToCover} owed to the borrow bank after slippage`);
+    }
+    const repayAmount = BigNumber.min(minOutAmount, borrowAmount);
+    debug("Unwinding %s of %s to repay %s of %s", withdrawAmount, depositBank.mint, repayAmount, borrowBank.mint);
+
+    const swap = await swapProvider.buildSwap(quote, this.authority);
+    const priorityFeeIx = this.makePriorityFeeIx(args.priorityFeeUi);
+    const cuRequestIxs = this.makeComputeBudgetIx();
+    const withdrawIxs = await this.makeWithdrawIx(closed ? depositAmount : withdrawAmount, depositBankAddress, closed);
+    const repayIxs = await this.makeRepayIx(repayAmount, borrowBankAddress, closed);
+    const transaction = await this.buildFlashLoanTx({
+      ixs: [
+        ...priorityFeeIx,
+        ...cuRequestIxs,
+        ...withdrawIxs.instructions,
+        ...swap.instructions,
+        ...repayIxs.instructions,
+      ],
+      addressLookupTableAccounts: [...this.client.addressLookupTables, ...swap.addressLookupTableAccounts],
+    });
+
+    return {
+      transaction,
+      withdrawAmount,
+      repayAmount,
+      quote,
+      leverage: closed
+        ? new BigNumber(1)
+        : computeLeverage(
+            depositBank,
+            borrowBank,
+            depositPriceInfo,
+            borrowPriceInfo,
+            depositAmount.minus(withdrawAmount),
+            borrowAmount.minus(repayAmount)
+          ),
+      closed,
+    };
+  }
+
+  async unwind(args: UnwindArgs): Promise<string> {
+    const debug = require("debug")(`mfi:margin-account:${this.address.toString()}:unwind`);
+    const { transaction } = await this.makeUnwindTx(args);
+    const sig = await this.client.processTransaction(transaction, []);
+    debug("Unwind successful %s", sig);
+    return sig;
+  }
+
+  /**
+   * Build a flash-loan transaction replacing a deposit with another: withdraw from `withdrawBankAddress`, swap the
+   * tokens and deposit the output into `depositBankAddress`, leaving liabilities untouched. Throws if the account would
+   * end up below its initial requirement.
+   */
+  async makeCollateralSwapTx(args: CollateralSwapArgs): Promise<CollateralSwapResult> {
+    const debug = require("debug")(`mfi:margin-account:${this.address.toString()}:collateral-swap`);
+    const { withdrawBankAddress, depositBankAddress, withdrawAll = false, swapProvider, slippageBps } = args;
+    if (withdrawBankAddress.equals(depositBankAddress)) throw Error("Cannot swap collateral into the same bank");
+
+    const withdrawBank = this.client.getBankByPk(withdrawBankAddress);
+    if (!withdrawBank) throw Error(`Bank ${withdrawBankAddress.toBase58()} not found`);
+    const depositBank = this.client.getBankByPk(depositBankAddress);
+    if (!depositBank) throw Error(`Bank ${depositBankAddress.toBase58()} not found`);
+
+    const entireBalance = this._marginfiAccount
+      .getBalance(withdrawBankAddress)
+      .computeQuantityUi(withdrawBank.accrueInterest()).assets;
+    const withdrawAmount = withdrawAll
+      ? entireBalance.decimalPlaces(withdrawBank.mintDecimals, BigNumber.ROUND_DOWN)
+      : new BigNumber(args.amount);
+    if (withdrawAmount.lte(0)) throw Error("Nothing to withdraw");
+    if (withdrawAmount.gt(entireBalance)) {
+      throw Error(`Cannot withdraw ${withdrawAmount}, only ${entireBalance} deposited`);
+    }
+
+    const quote = await swapProvider.quote({
+      inputMint: withdrawBank.mint,
+      outputMint: depositBank.mint,
+      amount: uiToNativeBigNumber(withdrawAmount, withdrawBank.mintDecimals),
+      slippageBps,
+    });
+    const depositAmount = quote.minOutAmount.shiftedBy(-depositBank.mintDecimals);
+    debug("Swapping %s of %s into %s of %s", withdrawAmount, withdrawBank.mint, depositAmount, depositBank.mint);
+
+    const projected = simulateAccountActions(this._marginfiAccount, this.client.banks, this.client.oraclePrices, [
+      { type: AccountActionType.Withdraw, bankAddress: withdrawBankAddress, amount: withdrawAmount, withdrawAll },
+      { type: AccountActionType.Deposit, bankAddress: depositBankAddress, amount: depositAmount },
+    ]);
+    const initHealth = projected.marginfiAccount.computeHealthComponents(
+      projected.banks,
+      this.client.oraclePrices,
+      MarginRequirementType.Initial
+    );
+    if (initHealth.assets.lt(initHealth.liabilities)) {
+      throw Error("Collateral swap would leave the account below its initial margin requirement");
+    }
+    const maintenanceHealth = projected.marginfiAccount.computeHealthComponents(
+      projected.banks,
+      this.client.oraclePrices,
+      MarginRequirementType.Maintenance
+    );
+
+    const swap = await swapProvider.buildSwap(quote, this.authority);
+    const priorityFeeIx = this.makePriorityFeeIx(args.priorityFeeUi);
+    const cuRequestIxs = this.makeComputeBudgetIx();
+    const withdrawIxs = await this.makeWithdrawIx(withdrawAmount, withdrawBankAddress, withdrawAll);
+    const depositIxs = await this.makeDepositIx(depositAmount, depositBankAddress);
+    const transaction = await this.buildFlashLoanTx({
+      ixs: [
+        ...priorityFeeIx,
+        ...cuRequestIxs,
+        ...withdrawIxs.instructions,
+        ...swap.instructions,
+        ...depositIxs.instructions,
+      ],
+      addressLookupTableAccounts: [...this.client.addressLookupTables, ...swap.addressLookupTableAccounts],
+    });
+
+    return { transaction, withdrawAmount, depositAmount, quote, initHealth, maintenanceHealth };
+  }
+
+  async swapCollateral(args: CollateralSwapArgs): Promise<string> {
+    const debug = require("debug")(`mfi:margin-account:${this.address.toString()}:collateral-swap`);
+    const { transaction } = await this.makeCollateralSwapTx(args);
+    const sig = await this.client.processTransaction(transaction, []);
+    debug("Collateral swap successful %s", sig);
+    return sig;
+  }
+
+  /**
+   * Build a flash-loan transaction moving a debt between banks: borrow from `borrowBankAddress`, swap into the repaid
+   * token and repay `repayBankAddress` with `repayAll`. The borrow is sized on the debt accrued until the transaction
+   * lands, with `REPAY_ALL_INTEREST_BUFFER_SEC` of margin, and capped by `computeMaxBorrowForBank` once the old debt
+   * is gone, so isolated-tier rules apply as they would after the move. Swap output left over after repaying stays in
+   * the wallet.
+   */
+  async makeDebtSwapTx(args: DebtSwapArgs): Promise<DebtSwapResult> {
+    const debug = require("debug")(`mfi:margin-account:${this.address.toString()}:debt-swap`);
+    const { repayBankAddress, borrowBankAddress, swapProvider, slippageBps } = args;
+    if (repayBankAddress.equals(borrowBankAddress)) throw Error("Cannot move debt into the same bank");
+
+    const repayBank = this.client.getBankByPk(repayBankAddress);
+    if (!repayBank) throw Error(`Bank ${repayBankAddress.toBase58()} not found`);
+    const borrowBank = this.client.getBankByPk(borrowBankAddress);
+    if (!borrowBank) throw Error(`Bank ${borrowBankAddress.toBase58()} not found`);
+    const repayPriceInfo = this.client.getOraclePriceByBank(repayBankAddress);
+    if (!repayPriceInfo) throw Error(`Price info for ${repayBankAddress.toBase58()} not found`);
+    const borrowPriceInfo = this.client.getOraclePriceByBank(borrowBankAddress);
+    if (!borrowPriceInfo) throw Error(`Price info for ${borrowBankAddress.toBase58()} not found`);
+    // The new debt is borrowed against the whole account, check every price its health depends on
+    await this.client.checkPriceSanity([
+      borrowBankAddress,
+      repayBankAddress,
+      ...this.activeBalances.map((balance) => balance.bankPk),
+    ]);
+
+    const now = Math.floor(Date.now() / 1000);
+    const repayBalance = this._marginfiAccount.getBalance(repayBankAddress);
+    const repayAmount = repayBalance.computeQuantityUi(repayBank.accrueInterest(now)).liabilities;
+    if (repayAmount.isZero()) throw Error(`No debt to move out of bank ${repayBankAddress.toBase58()}`);
+    // The old debt is repaid as accrued when the transaction lands, the swap must also cover interest until then
+    const debtToCover = computeRepayAllSwapAmount(repayBank, repayBalance, now, REPAY_ALL_INTEREST_BUFFER_SEC);
+
+    const borrowAmount = computeSwapInputAmount(
+      borrowBank,
+      repayBank,
+      borrowPriceInfo,
+      repayPriceInfo,
+      debtToCover,
+      slippageBps
+    );
+    const repaid = simulateAccountActions(this._marginfiAccount, this.client.banks, this.client.oraclePrices, [
+      { type: AccountActionType.Repay, bankAddress: repayBankAddress, amount: debtToCover, repayAll: true },
+    ]);
+    const maxBorrow = repaid.marginfiAccount.computeMaxBorrowForBank(
+      repaid.banks,
+      this.client.oraclePrices,
+      borrowBankAddress
+    );
+    if (borrowAmount.gt(maxBorrow)) {
+      throw Error(`Moving the debt requires borrowing ${borrowAmount}, above the ${maxBorrow} allowed`);
+    }
+
+    const projected = simulateAccountActions(repaid.marginfiAccount, repaid.banks, this.client.oraclePrices, [
+      { type: AccountActionType.Borrow, bankAddress: borrowBankAddress, amount: borrowAmount },
+    ]);
+    const initHealth = projected.marginfiAccount.computeHealthComponents(
+      projected.banks,
+      this.client.oraclePrices,
+      MarginRequirementType.Initial
+    );
+    if (initHealth.assets.lt(initHealth.liabilities)) {
+      throw Error("Debt swap would leave the account below its initial margin requirement");
+    }
+
+    const quote = await swapProvider.quote({
+      inputMint: borrowBank.mint,
+      outputMint: repayBank.mint,
+      amount: uiToNativeBigNumber(borrowAmount, borrowBank.mintDecimals),
+      slippageBps,
+    });
+    if (quote.minOutAmount.shiftedBy(-repayBank.mintDecimals).lt(debtToCover)) {
+      throw Error(`Swap output does not cover the ${debtToCover} owed after slippage`);
+    }
+    debug("Moving %s of %s debt to %s of %s", repayAmount, repayBank.mint, borrowAmount, borrowBank.mint);
+
+    const swap = await swapProvider.buildSwap(quote, this.authority);
+    const priorityFeeIx = this.makePriorityFeeIx(args.priorityFeeUi);
+    const cuRequestIxs = this.makeComputeBudgetIx();
+    const borrowIxs = await this.makeBorrowIx(borrowAmount, borrowBankAddress, false);
+    const repayIxs = await this.makeRepayIx(repayAmount, repayBankAddress, true);
+    const transaction = await this.buildFlashLoanTx({
+      ixs: [
+        ...priorityFeeIx,
+        ...cuRequestIxs,
+        ...borrowIxs.instructions,
+        ...swap.instructions,
+        ...repayIxs.instructions,
+      ],
+      addressLookupTableAccounts: [...this.client.addressLookupTables, ...swap.addressLookupTableAccounts],
+    });
+    const borrowQuantity = uiToNativeBigNumber(borrowAmount, borrowBank.mintDecimals);
+
+    return {
+      transaction,
+      borrowAmount,
+      repayAmount,
+      quote,
+      previousBorrowRate: repayBank.computeInterestRatePoint(repayBank.computeUtilizationRate()),
+      newBorrowRate: borrowBank.computeUtilizationImpact(0, borrowQuantity).projected,
+      initHealth,
+    };
+  }
+
+  async swapDebt(args: DebtSwapArgs): Promise<string> {
+    const debug = require("debug")(`mfi:margin-account:${this.address.toString()}:debt-swap`);
+    const { transaction } = await this.makeDebtSwapTx(args);
+    const sig = await this.client.processTransaction(transaction, []);
+    debug("Debt swap successful %s", sig);
+    return sig;
+  }
+
   async makeRepayIx(amount: Amount, bankAddress: PublicKey, repayAll: boolean = false): Promise<InstructionsWrapper> {
     return this._marginfiAccount.makeRepayIx(this._program, this.client.banks, amount, bankAddress, repayAll);
   }
@@ -514,6 +1166,8 @@ class MarginfiAccountWrapper {
   async borrow(amount: Amount, bankAddress: PublicKey, priorityFeeUi?: number): Promise<string> {
     const debug = require("debug")(`mfi:margin-account:${this.address.toString()}:borrow`);
     debug("Borrowing %s from marginfi account", amount);
+    // Refuse to borrow against outlier prices, every active balance feeds the health check
+    await this.client.checkPriceSanity([bankAddress, ...this.activeBalances.map((balance) => balance.bankPk)]);
     const priorityFeeIx = this.makePriorityFeeIx(priorityFeeUi);
     const cuRequestIxs = this.makeComputeBudgetIx();
     const ixs = await this.makeBorrowIx(amount, bankAddress);
@@ -565,6 +1219,34 @@ class MarginfiAccountWrapper {
     return sig;
   }
 
+  async makeCloseBalanceIx(bankAddress: PublicKey): Promise<InstructionsWrapper> {
+    return this._marginfiAccount.makeCloseBalanceIx(this._program, this.client.banks, bankAddress);
+  }
+
+  async closeBalance(bankAddress: PublicKey): Promise<string> {
+    const debug = require("debug")(`mfi:margin-account:${this.address.toString()}:close-balance`);
+    debug("Closing balance of marginfi account (bank: %s)", bankAddress);
+    const ixs = await this.makeCloseBalanceIx(bankAddress);
+    const tx = new Transaction().add(...ixs.instructions);
+    const sig = await this.client.processTransaction(tx, []);
+    debug("Closing balance successful %s", sig);
+    return sig;
+  }
+
+  async makeSettleEmissionsIx(bankAddress: PublicKey): Promise<InstructionsWrapper> {
+    return this._marginfiAccount.makeSettleEmissionsIx(this._program, this.client.banks, bankAddress);
+  }
+
+  async settleEmissions(bankAddress: PublicKey): Promise<string> {
+    const debug = require("debug")(`mfi:margin-account:${this.address.toString()}:settle-emissions`);
+    debug("Settling emissions of marginfi account (bank: %s)", bankAddress);
+    const ixs = await this.makeSettleEmissionsIx(bankAddress);
+    const tx = new Transaction().add(...ixs.instructions);
+    const sig = await this.client.processTransaction(tx, []);
+    debug("Settling emissions successful %s", sig);
+    return sig;
+  }
+
   public async makeLendingAccountLiquidateIx(
     liquidateeMarginfiAccount: MarginfiAccount,
     assetBankAddress: PublicKey,
@@ -589,6 +1271,7 @@ class MarginfiAccountWrapper {
   ): Promise<string> {
     const debug = require("debug")(`mfi:margin-account:${this.address.toString()}:liquidation`);
     debug("Liquidating marginfi account %s", liquidateeMarginfiAccount.address.toBase58());
+    await this.client.checkPriceSanity([assetBankAddress, liabBankAddress]);
     const ixw = await this.makeLendingAccountLiquidateIx(
       liquidateeMarginfiAccount,
       assetBankAddress,
@@ -763,6 +1446,85 @@ class MarginfiAccountWrapper {
     this._updateFromAccountParsed(marginfiAccountParsed);
   }
 
+  /**
+   * Watch the account over websocket, keeping it up to date and firing callbacks when its maintenance health crosses
+   * one of `opts.thresholds`. Health only changes with account data here; pair `checkHealth()` with
+   * `MarginfiClient.subscribe` to also react to bank and price updates.
+   */
+  subscribe(opts: AccountSubscriptionOptions = {}): AccountSubscription {
+    const debug = require("debug")(`mfi:margin-account:${this.address.toString()}:subscription`);
+    const connection = opts.connection ?? this._program.provider.connection;
+    const commitment = opts.commitment ?? this._program.provider.connection.commitment;
+    const onError = opts.onError ?? ((error: unknown) => debug("Failed to apply account update: %s", error));
+    const thresholds = [...(opts.thresholds ?? [])].sort((a, b) => b - a);
+
+    let lastHealth: number | null = null;
+    let active = true;
+
+    const checkHealth = () => {
+      if (!active) return;
+      try {
+        const health = this.computeMaintenanceHealth();
+        const previousHealth = lastHealth;
+        lastHealth = health;
+        if (health === previousHealth) return;
+
+        opts.onHealthChange?.(health, previousHealth);
+        if (previousHealth === null) return;
+        for (const threshold of thresholds) {
+          if (previousHealth > threshold && health <= threshold) {
+            opts.onThresholdCrossed?.({ threshold, direction: HealthThresholdDirection.Below, health, previousHealth });
+          } else if (previousHealth <= threshold && health > threshold) {
+            opts.onThresholdCrossed?.({ threshold, direction: HealthThresholdDirection.Above, health, previousHealth });
+          }
+        }
+      } catch (error) {
+        onError(error);
+      }
+    };
+
+    const subscriptionId = connection.onAccountChange(
+      this.address,
+      (accountInfo) => {
+        // Notifications may still arrive while the listener is being removed
+        if (!active) return;
+        try {
+          const marginfiAccountParsed = MarginfiAccount.decode(accountInfo.data);
+          if (!marginfiAccountParsed.group.equals(this._config.groupPk))
+            throw Error(
+              `Marginfi account tied to group ${marginfiAccountParsed.group.toBase58()}. Expected: ${this._config.groupPk.toBase58()}`
+            );
+          this._updateFromAccountParsed(marginfiAccountParsed);
+        } catch (error) {
+          onError(error);
+          return;
+        }
+        checkHealth();
+      },
+      commitment
+    );
+
+    checkHealth();
+
+    return {
+      checkHealth,
+      unsubscribe: async () => {
+        active = false;
+        await connection.removeAccountChangeListener(subscriptionId);
+      },
+    };
+  }
+
+  /**
+   * Maintenance health as `(assets - liabilities) / assets`, 1 for an account without liabilities.
+   */
+  public computeMaintenanceHealth(): number {
+    const { assets, liabilities } = this.computeHealthComponents(MarginRequirementType.Maintenance);
+    if (liabilities.isZero()) return 1;
+    if (assets.isZero()) return -Infinity;
+    return assets.minus(liabilities).div(assets).toNumber();
+  }
+
   private _updateFromAccountParsed(data: MarginfiAccountRaw) {
     this._marginfiAccount = new MarginfiAccount(this.address, data);
   }
@@ -63,6 +63,17 @@ class Balance {
     return new Balance(false, bankPk, new BigNumber(0), new BigNumber(0), new BigNumber(0), 0);
   }
 
+  clone(): Balance {
+    return new Balance(
+      this.active,
+      this.bankPk,
+      this.assetShares,
+      this.liabilityShares,
+      this.emissionsOutstanding,
+      this.lastUpdate
+    );
+  }
+
   computeUsdValue(
     bank: Bank,
     oraclePrice: OraclePrice,
@@ -1,4 +1,4 @@
-import { BankMetadata, WrappedI80F48, nativeToUi, wrappedI80F48toBigNumber } from "@mrgnlabs/mrgn-common";
+import { BankMetadata, WrappedI80F48, aprToApy, nativeToUi, wrappedI80F48toBigNumber } from "@mrgnlabs/mrgn-common";
 import { PublicKey } from "@solana/web3.js";
 import BigNumber from "bignumber.js";
 import BN from "bn.js";
@@ -7,9 +7,11 @@ import { PriceBias, OraclePrice, getPriceWithConfidence } from "./price";
 import { BorshCoder } from "@coral-xyz/anchor";
 import { AccountType } from "../types";
 import { MARGINFI_IDL } from "../idl";
+import { bigNumberToWrappedI80F48 } from "../utils";
+import { SECONDS_PER_DAY } from "../constants";
 
-const SECONDS_PER_DAY = 24 * 60 * 60;
-const SECONDS_PER_YEAR = SECONDS_PER_DAY * 365.25;
+// Same as the program, interest accrues over 365-day years
+const SECONDS_PER_YEAR = SECONDS_PER_DAY * 365;
 
 // ----------------------------------------------------------------------------
 // On-chain types
@@ -89,6 +91,13 @@ interface InterestRateConfigRaw {
 
 type OracleSetupRaw = number;
 
+type OracleSetupSerialized =
+  | { none: {} }
+  | { pythEma: {} }
+  | { switchboardV2: {} }
+  | { pythPushOracle: {} }
+  | { switchboardPull: {} };
+
 export type { BankRaw, BankConfigRaw, RiskTierRaw, InterestRateConfigRaw, OracleSetupRaw };
 
 // ----------------------------------------------------------------------------
@@ -282,6 +291,38 @@ class Bank {
     );
   }
 
+  clone(): Bank {
+    return new Bank(
+      this.address,
+      this.mint,
+      this.mintDecimals,
+      this.group,
+      this.assetShareValue,
+      this.liabilityShareValue,
+      this.liquidityVault,
+      this.liquidityVaultBump,
+      this.liquidityVaultAuthorityBump,
+      this.insuranceVault,
+      this.insuranceVaultBump,
+      this.insuranceVaultAuthorityBump,
+      this.collectedInsuranceFeesOutstanding,
+      this.feeVault,
+      this.feeVaultBump,
+      this.feeVaultAuthorityBump,
+      this.collectedGroupFeesOutstanding,
+      new BN(this.lastUpdate),
+      this.config,
+      this.totalAssetShares,
+      this.totalLiabilityShares,
+      this.emissionsActiveBorrowing,
+      this.emissionsActiveLending,
+      this.emissionsRate,
+      this.emissionsMint,
+      this.emissionsRemaining,
+      this.tokenSymbol
+    );
+  }
+
   getTotalAssetQuantity(): BigNumber {
     return this.totalAssetShares.times(this.assetShareValue);
   }
@@ -299,11 +340,11 @@ class Bank {
   }
 
   getAssetShares(assetQuantity: BigNumber): BigNumber {
-    return assetQuantity.times(this.assetShareValue);
+    return assetQuantity.div(this.assetShareValue);
   }
 
   getLiabilityShares(liabilityQuantity: BigNumber): BigNumber {
-    return liabilityQuantity.times(this.liabilityShareValue);
+    return liabilityQuantity.div(this.liabilityShareValue);
   }
 
   computeAssetUsdValue(
@@ -314,7 +355,7 @@ class Bank {
   ): BigNumber {
     const assetQuantity = this.getAssetQuantity(assetShares);
     const assetWeight = this.getAssetWeight(marginRequirementType, oraclePrice);
-    const isWeighted = isWeightedPrice(marginRequirementType);
+    const isWeighted = isWeightedPrice(marginRequirementType, oraclePrice.confidencePolicy);
     return this.computeUsdValue(oraclePrice, assetQuantity, priceBias, isWeighted, assetWeight);
   }
 
@@ -326,7 +367,7 @@ class Bank {
   ): BigNumber {
     const liabilityQuantity = this.getLiabilityQuantity(liabilityShares);
     const liabilityWeight = this.getLiabilityWeight(marginRequirementType);
-    const isWeighted = isWeightedPrice(marginRequirementType);
+    const isWeighted = isWeightedPrice(marginRequirementType, oraclePrice.confidencePolicy);
     return this.computeUsdValue(oraclePrice, liabilityQuantity, priceBias, isWeighted, liabilityWeight);
   }
 
@@ -367,6 +408,18 @@ class Bank {
     }
   }
 
+  /**
+   * Price used to value balances under `marginRequirementType`, realtime or weighted as the oracle's confidence policy
+   * prescribes for health computations.
+   */
+  getPriceForRequirement(
+    oraclePrice: OraclePrice,
+    marginRequirementType: MarginRequirementType,
+    priceBias: PriceBias = PriceBias.None
+  ): BigNumber {
+    return this.getPrice(oraclePrice, priceBias, isWeightedPrice(marginRequirementType, oraclePrice.confidencePolicy));
+  }
+
   getAssetWeight(
     marginRequirementType: MarginRequirementType,
     oraclePrice: OraclePrice,
@@ -425,7 +478,7 @@ class Bank {
     );
   }
 
-  computeInterestRates(): {
+  computeInterestRates(utilizationRate: BigNumber = this.computeUtilizationRate()): {
     lendingRate: BigNumber;
     borrowingRate: BigNumber;
   } {
@@ -434,8 +487,7 @@ class Bank {
     const fixedFee = insuranceFeeFixedApr.plus(protocolFixedFeeApr);
     const rateFee = insuranceIrFee.plus(protocolIrFee);
 
-    const baseInterestRate = this.computeBaseInterestRate();
-    const utilizationRate = this.computeUtilizationRate();
+    const baseInterestRate = this.computeBaseInterestRate(utilizationRate);
 
     const lendingRate = baseInterestRate.times(utilizationRate);
     const borrowingRate = baseInterestRate.times(new BigNumber(1).plus(rateFee)).plus(fixedFee)
@@ -443,11 +495,9 @@ class Bank {
     return { lendingRate, borrowingRate };
   }
 
-  computeBaseInterestRate(): BigNumber {
+  computeBaseInterestRate(utilizationRate: BigNumber = this.computeUtilizationRate()): BigNumber {
     const { optimalUtilizationRate, plateauInterestRate, maxInterestRate } = this.config.interestRateConfig;
 
-    const utilizationRate = this.computeUtilizationRate();
-
     if (utilizationRate.lte(optimalUtilizationRate)) {
       return utilizationRate.times(plateauInterestRate).div(optimalUtilizationRate);
     } else {
@@ -459,6 +509,83 @@ class Bank {
     }
   }
 
+  /**
+   * Emissions paid per year as a fraction of the USD value of a position, for each side with active emissions.
+   * `emissionsRate` is the amount of emissions tokens (native units) paid per year per UI unit of the bank's token.
+   *
+   * @param emissionsMintPrice USD price of one UI unit of the emissions mint
+   */
+  computeEmissionsRates(
+    oraclePrice: OraclePrice,
+    emissionsMintPrice: BigNumber.Value,
+    emissionsMintDecimals: number
+  ): { lendingEmissionsRate: BigNumber; borrowingEmissionsRate: BigNumber } {
+    const price = this.getPrice(oraclePrice, PriceBias.None, false);
+    const emissionsRate =
+      this.emissionsRemaining.isZero() || price.isZero()
+        ? new BigNumber(0)
+        : new BigNumber(this.emissionsRate)
+            .shiftedBy(-emissionsMintDecimals)
+            .times(emissionsMintPrice)
+            .div(price);
+
+    return {
+      lendingEmissionsRate: this.emissionsActiveLending ? emissionsRate : new BigNumber(0),
+      borrowingEmissionsRate: this.emissionsActiveBorrowing ? emissionsRate : new BigNumber(0),
+    };
+  }
+
+  /**
+   * Lending/borrowing APR and their compounded APY at `utilizationRate` (0 to 1).
+   */
+  computeInterestRatePoint(utilizationRate: BigNumber.Value): InterestRatePoint {
+    const _utilizationRate = BigNumber.min(1, BigNumber.max(0, utilizationRate));
+    const { lendingRate, borrowingRate } = this.computeInterestRates(_utilizationRate);
+    return {
+      utilizationRate: _utilizationRate,
+      lendingRate,
+      borrowingRate,
+      lendingApy: aprToApy(lendingRate.toNumber()),
+      borrowingApy: aprToApy(borrowingRate.toNumber()),
+    };
+  }
+
+  /**
+   * Sample the interest rate curve at `sampleCount` evenly spaced utilization points from 0 to 1, plus the
+   * `optimalUtilizationRate` kink.
+   */
+  computeInterestRateCurve(sampleCount: number = 101): InterestRatePoint[] {
+    if (sampleCount < 2) throw Error("At least two samples are required");
+    const { optimalUtilizationRate } = this.config.interestRateConfig;
+
+    const utilizationRates = Array.from({ length: sampleCount }, (_, i) => new BigNumber(i).div(sampleCount - 1));
+    if (!utilizationRates.some((u) => u.eq(optimalUtilizationRate))) {
+      utilizationRates.push(optimalUtilizationRate);
+      utilizationRates.sort((a, b) => a.comparedTo(b));
+    }
+
+    return utilizationRates.map((utilizationRate) => this.computeInterestRatePoint(utilizationRate));
+  }
+
+  /**
+   * Rates after the bank's totals move by the given native quantities, e.g. a positive `liabilityQuantityDelta` for
+   * a borrow or a negative `assetQuantityDelta` for a withdrawal.
+   */
+  computeUtilizationImpact(
+    assetQuantityDelta: BigNumber.Value,
+    liabilityQuantityDelta: BigNumber.Value
+  ): { current: InterestRatePoint; projected: InterestRatePoint } {
+    const assets = this.getTotalAssetQuantity().plus(assetQuantityDelta);
+    const liabilities = this.getTotalLiabilityQuantity().plus(liabilityQuantityDelta);
+    if (assets.lt(0) || liabilities.lt(0)) throw Error("Quantity delta exceeds the bank's totals");
+    if (liabilities.gt(assets)) throw Error("Liabilities cannot exceed assets");
+
+    return {
+      current: this.computeInterestRatePoint(this.computeUtilizationRate()),
+      projected: this.computeInterestRatePoint(assets.isZero() ? 0 : liabilities.div(assets)),
+    };
+  }
+
   computeUtilizationRate(): BigNumber {
     const assets = this.getTotalAssetQuantity();
     const liabilities = this.getTotalLiabilityQuantity();
@@ -466,31 +593,81 @@ class Bank {
     return liabilities.div(assets);
   }
 
+  /**
+   * Project the state the program will write when accruing interest at `timestamp`: share values grow at the
+   * lending/borrowing APR computed from the current utilization, fees accrue on total liabilities. Nothing accrues
+   * while the bank has no deposits or no borrows.
+   *
+   * @param timestamp Unix timestamp in seconds, defaults to the local clock
+   */
+  computeInterestAccrual(timestamp: number = Math.floor(Date.now() / 1000)): BankInterestAccrual {
+    const timeDelta = Math.max(0, timestamp - this.lastUpdate);
+    const accrual: BankInterestAccrual = {
+      lastUpdate: Math.max(timestamp, this.lastUpdate),
+      assetShareValue: this.assetShareValue,
+      liabilityShareValue: this.liabilityShareValue,
+      collectedGroupFeesOutstanding: this.collectedGroupFeesOutstanding,
+      collectedInsuranceFeesOutstanding: this.collectedInsuranceFeesOutstanding,
+    };
+    if (timeDelta === 0) return accrual;
+
+    // the program leaves share values and fees untouched while either side of the book is empty
+    const totalAssets = this.getTotalAssetQuantity();
+    const totalLiabilities = this.getTotalLiabilityQuantity();
+    if (totalAssets.isZero() || totalLiabilities.isZero()) return accrual;
+
+    const { insuranceFeeFixedApr, insuranceIrFee, protocolFixedFeeApr, protocolIrFee } = this.config.interestRateConfig;
+    const { lendingRate, borrowingRate } = this.computeInterestRates();
+    if (lendingRate.isZero() && borrowingRate.isZero()) return accrual;
+
+    const baseInterestRate = this.computeBaseInterestRate();
+    const groupFeeRate = baseInterestRate.times(protocolIrFee).plus(protocolFixedFeeApr);
+    const insuranceFeeRate = baseInterestRate.times(insuranceIrFee).plus(insuranceFeeFixedApr);
+
+    const yearFraction = new BigNumber(timeDelta).div(SECONDS_PER_YEAR);
+
+    return {
+      ...accrual,
+      assetShareValue: this.assetShareValue.times(lendingRate.times(yearFraction).plus(1)),
+      liabilityShareValue: this.liabilityShareValue.times(borrowingRate.times(yearFraction).plus(1)),
+      collectedGroupFeesOutstanding: this.collectedGroupFeesOutstanding.plus(
+        totalLiabilities.times(groupFeeRate).times(yearFraction)
+      ),
+      collectedInsuranceFeesOutstanding: this.collectedInsuranceFeesOutstanding.plus(
+        totalLiabilities.times(insuranceFeeRate).times(yearFraction)
+      ),
+    };
+  }
+
+  /**
+   * @returns A copy of the bank with interest accrued to `timestamp`, see `computeInterestAccrual`
+   */
+  accrueInterest(timestamp?: number): Bank {
+    const accrual = this.computeInterestAccrual(timestamp);
+    const bank = this.clone();
+    bank.lastUpdate = accrual.lastUpdate;
+    bank.assetShareValue = accrual.assetShareValue;
+    bank.liabilityShareValue = accrual.liabilityShareValue;
+    bank.collectedGroupFeesOutstanding = accrual.collectedGroupFeesOutstanding;
+    bank.collectedInsuranceFeesOutstanding = accrual.collectedInsuranceFeesOutstanding;
+    return bank;
+  }
+
+  /**
+   * Remaining room under the deposit and borrow limits, with interest accrued to now since the program accrues
+   * before checking the limits.
+   */
   computeRemainingCapacity(): {
     depositCapacity: BigNumber;
     borrowCapacity: BigNumber;
   } {
-    const totalDeposits = this.getTotalAssetQuantity();
-    const remainingCapacity = BigNumber.max(0, this.config.depositLimit.minus(totalDeposits));
+    const { assetShareValue, liabilityShareValue } = this.computeInterestAccrual();
 
-    const totalBorrows = this.getTotalLiabilityQuantity();
-    const remainingBorrowCapacity = BigNumber.max(0, this.config.borrowLimit.minus(totalBorrows));
+    const totalDeposits = this.totalAssetShares.times(assetShareValue);
+    const depositCapacity = BigNumber.max(0, this.config.depositLimit.minus(totalDeposits));
 
-    const durationSinceLastAccrual = Date.now() / 1000 - this.lastUpdate;
-
-    const { lendingRate, borrowingRate } = this.computeInterestRates();
-
-    const outstandingLendingInterest = lendingRate
-      .times(durationSinceLastAccrual)
-      .dividedBy(SECONDS_PER_YEAR)
-      .times(totalDeposits);
-    const outstandingBorrowInterest = borrowingRate
-      .times(durationSinceLastAccrual)
-      .dividedBy(SECONDS_PER_YEAR)
-      .times(totalBorrows);
-
-    const depositCapacity = remainingCapacity.minus(outstandingLendingInterest.times(2));
-    const borrowCapacity = remainingBorrowCapacity.minus(outstandingBorrowInterest.times(2));
+    const totalBorrows = this.totalLiabilityShares.times(liabilityShareValue);
+    const borrowCapacity = BigNumber.max(0, this.config.borrowLimit.minus(totalBorrows));
 
     return {
       depositCapacity,
@@ -648,10 +825,28 @@ interface InterestRateConfig {
   protocolIrFee: BigNumber;
 }
 
+interface InterestRatePoint {
+  utilizationRate: BigNumber;
+  lendingRate: BigNumber;
+  borrowingRate: BigNumber;
+  lendingApy: number;
+  borrowingApy: number;
+}
+
+interface BankInterestAccrual {
+  lastUpdate: number;
+  assetShareValue: BigNumber;
+  liabilityShareValue: BigNumber;
+  collectedGroupFeesOutstanding: BigNumber;
+  collectedInsuranceFeesOutstanding: BigNumber;
+}
+
 enum OracleSetup {
   None = "None",
   PythEma = "PythEma",
   SwitchboardV2 = "SwitchboardV2",
+  PythPushOracle = "PythPushOracle",
+  SwitchboardPull = "SwitchboardPull",
 }
 
 // BankConfigOpt Args
@@ -692,22 +887,18 @@ interface BankConfigOptRaw {
   operationalState: { paused: {} } | { operational: {} } | { reduceOnly: {} } | null;
 
   oracle: {
-    setup: { none: {} } | { pythEma: {} } | { switchboardV2: {} };
+    setup: OracleSetupSerialized;
     keys: PublicKey[];
   } | null;
 }
 
 function serializeBankConfigOpt(bankConfigOpt: BankConfigOpt): BankConfigOptRaw {
-  const assetWeightInit = bankConfigOpt.assetWeightInit && { value: new BN(bankConfigOpt.assetWeightInit.toString()) };
-  const assetWeightMaint = bankConfigOpt.assetWeightMaint && {
-    value: new BN(bankConfigOpt.assetWeightMaint.toString()),
-  };
-  const liabilityWeightInit = bankConfigOpt.liabilityWeightInit && {
-    value: new BN(bankConfigOpt.liabilityWeightInit.toString()),
-  };
-  const liabilityWeightMaint = bankConfigOpt.liabilityWeightMaint && {
-    value: new BN(bankConfigOpt.liabilityWeightMaint.toString()),
-  };
+  const assetWeightInit = bankConfigOpt.assetWeightInit && bigNumberToWrappedI80F48(bankConfigOpt.assetWeightInit);
+  const assetWeightMaint = bankConfigOpt.assetWeightMaint && bigNumberToWrappedI80F48(bankConfigOpt.assetWeightMaint);
+  const liabilityWeightInit =
+    bankConfigOpt.liabilityWeightInit && bigNumberToWrappedI80F48(bankConfigOpt.liabilityWeightInit);
+  const liabilityWeightMaint =
+    bankConfigOpt.liabilityWeightMaint && bigNumberToWrappedI80F48(bankConfigOpt.liabilityWeightMaint);
   const depositLimit = bankConfigOpt.depositLimit && new BN(bankConfigOpt.depositLimit.toString());
   const borrowLimit = bankConfigOpt.borrowLimit && new BN(bankConfigOpt.borrowLimit.toString());
   const riskTier = bankConfigOpt.riskTier && serializeRiskTier(bankConfigOpt.riskTier); // parseRiskTier(bankConfigRaw.riskTier);
@@ -718,15 +909,8 @@ function serializeBankConfigOpt(bankConfigOpt: BankConfigOpt): BankConfigOptRaw
     setup: serializeOracleSetup(bankConfigOpt.oracle.setup),
     keys: bankConfigOpt.oracle.keys,
   };
-  const interestRateConfig = bankConfigOpt.interestRateConfig && {
-    insuranceFeeFixedApr: { value: new BN(bankConfigOpt.interestRateConfig.insuranceFeeFixedApr.toString()) },
-    maxInterestRate: { value: new BN(bankConfigOpt.interestRateConfig.maxInterestRate.toString()) },
-    insuranceIrFee: { value: new BN(bankConfigOpt.interestRateConfig.insuranceIrFee.toString()) },
-    optimalUtilizationRate: { value: new BN(bankConfigOpt.interestRateConfig.optimalUtilizationRate.toString()) },
-    plateauInterestRate: { value: new BN(bankConfigOpt.interestRateConfig.plateauInterestRate.toString()) },
-    protocolFixedFeeApr: { value: new BN(bankConfigOpt.interestRateConfig.protocolFixedFeeApr.toString()) },
-    protocolIrFee: { value: new BN(bankConfigOpt.interestRateConfig.protocolIrFee.toString()) },
-  };
+  const interestRateConfig =
+    bankConfigOpt.interestRateConfig && serializeInterestRateConfig(bankConfigOpt.interestRateConfig);
 
   return {
     assetWeightInit,
@@ -743,6 +927,81 @@ function serializeBankConfigOpt(bankConfigOpt: BankConfigOpt): BankConfigOptRaw
   };
 }
 
+// BankConfigCompact Args
+interface BankConfigCompact {
+  assetWeightInit: BigNumber;
+  assetWeightMaint: BigNumber;
+
+  liabilityWeightInit: BigNumber;
+  liabilityWeightMaint: BigNumber;
+
+  depositLimit: BigNumber;
+  borrowLimit: BigNumber;
+  riskTier: RiskTier;
+  totalAssetValueInitLimit: BigNumber;
+
+  interestRateConfig: InterestRateConfig;
+  operationalState: OperationalState;
+
+  oracle: {
+    setup: OracleSetup;
+    key: PublicKey;
+  };
+}
+
+interface BankConfigCompactRaw {
+  assetWeightInit: WrappedI80F48;
+  assetWeightMaint: WrappedI80F48;
+
+  liabilityWeightInit: WrappedI80F48;
+  liabilityWeightMaint: WrappedI80F48;
+
+  depositLimit: BN;
+  borrowLimit: BN;
+  riskTier: RiskTierRaw;
+  totalAssetValueInitLimit: BN;
+
+  interestRateConfig: InterestRateConfigRaw;
+  operationalState: { paused: {} } | { operational: {} } | { reduceOnly: {} };
+
+  oracleSetup: OracleSetupSerialized;
+  oracleKey: PublicKey;
+
+  auto_padding_0: number[];
+  auto_padding_1: number[];
+}
+
+function serializeBankConfigCompact(bankConfig: BankConfigCompact): BankConfigCompactRaw {
+  return {
+    assetWeightInit: bigNumberToWrappedI80F48(bankConfig.assetWeightInit),
+    assetWeightMaint: bigNumberToWrappedI80F48(bankConfig.assetWeightMaint),
+    liabilityWeightInit: bigNumberToWrappedI80F48(bankConfig.liabilityWeightInit),
+    liabilityWeightMaint: bigNumberToWrappedI80F48(bankConfig.liabilityWeightMaint),
+    depositLimit: new BN(bankConfig.depositLimit.toString()),
+    borrowLimit: new BN(bankConfig.borrowLimit.toString()),
+    riskTier: serializeRiskTier(bankConfig.riskTier),
+    totalAssetValueInitLimit: new BN(bankConfig.totalAssetValueInitLimit.toString()),
+    interestRateConfig: serializeInterestRateConfig(bankConfig.interestRateConfig),
+    operationalState: serializeOperationalState(bankConfig.operationalState),
+    oracleSetup: serializeOracleSetup(bankConfig.oracle.setup),
+    oracleKey: bankConfig.oracle.key,
+    auto_padding_0: new Array(6).fill(0),
+    auto_padding_1: new Array(7).fill(0),
+  };
+}
+
+function serializeInterestRateConfig(interestRateConfig: InterestRateConfig): InterestRateConfigRaw {
+  return {
+    insuranceFeeFixedApr: bigNumberToWrappedI80F48(interestRateConfig.insuranceFeeFixedApr),
+    maxInterestRate: bigNumberToWrappedI80F48(interestRateConfig.maxInterestRate),
+    insuranceIrFee: bigNumberToWrappedI80F48(interestRateConfig.insuranceIrFee),
+    optimalUtilizationRate: bigNumberToWrappedI80F48(interestRateConfig.optimalUtilizationRate),
+    plateauInterestRate: bigNumberToWrappedI80F48(interestRateConfig.plateauInterestRate),
+    protocolFixedFeeApr: bigNumberToWrappedI80F48(interestRateConfig.protocolFixedFeeApr),
+    protocolIrFee: bigNumberToWrappedI80F48(interestRateConfig.protocolIrFee),
+  };
+}
+
 function parseRiskTier(riskTierRaw: RiskTierRaw): RiskTier {
   switch (Object.keys(riskTierRaw)[0].toLowerCase()) {
     case "collateral":
@@ -793,6 +1052,14 @@ function serializeOperationalState(
   }
 }
 
+/**
+ * Oracle accounts a bank actually uses, in order: the price account first, then any auxiliary accounts. Unused slots
+ * of the fixed-size on-chain array are left at the default key.
+ */
+function getActiveOracleKeys(oracleKeys: PublicKey[]): PublicKey[] {
+  return oracleKeys.filter((key, index) => index === 0 || !key.equals(PublicKey.default));
+}
+
 function parseOracleSetup(oracleSetupRaw: OracleSetupRaw): OracleSetup {
   switch (Object.keys(oracleSetupRaw)[0].toLowerCase()) {
     case "none":
@@ -801,12 +1068,16 @@ function parseOracleSetup(oracleSetupRaw: OracleSetupRaw): OracleSetup {
       return OracleSetup.PythEma;
     case "switchboardv2":
       return OracleSetup.SwitchboardV2;
+    case "pythpushoracle":
+      return OracleSetup.PythPushOracle;
+    case "switchboardpull":
+      return OracleSetup.SwitchboardPull;
     default:
       throw new Error(`Invalid oracle setup "${oracleSetupRaw}"`);
   }
 }
 
-function serializeOracleSetup(oracleSetup: OracleSetup): { none: {} } | { pythEma: {} } | { switchboardV2: {} } {
+function serializeOracleSetup(oracleSetup: OracleSetup): OracleSetupSerialized {
   switch (oracleSetup) {
     case OracleSetup.None:
       return { none: {} };
@@ -814,12 +1085,24 @@ function serializeOracleSetup(oracleSetup: OracleSetup): { none: {} } | { pythEm
       return { pythEma: {} };
     case OracleSetup.SwitchboardV2:
       return { switchboardV2: {} };
+    case OracleSetup.PythPushOracle:
+      return { pythPushOracle: {} };
+    case OracleSetup.SwitchboardPull:
+      return { switchboardPull: {} };
     default:
       throw new Error(`Invalid oracle setup "${oracleSetup}"`);
   }
 }
 
-export type { InterestRateConfig, BankConfigOpt, BankConfigOptRaw };
+export type {
+  InterestRateConfig,
+  BankInterestAccrual,
+  InterestRatePoint,
+  BankConfigOpt,
+  BankConfigOptRaw,
+  BankConfigCompact,
+  BankConfigCompactRaw,
+};
 export {
   Bank,
   BankConfig,
@@ -828,7 +1111,9 @@ export {
   OracleSetup,
   parseRiskTier,
   parseOracleSetup,
+  getActiveOracleKeys,
   serializeBankConfigOpt,
+  serializeBankConfigCompact,
 };
 
 // ----------------------------------------------------------------------------
@@ -1,12 +1,14 @@
 import { BorshCoder } from "@coral-xyz/anchor";
-import { PublicKey } from "@solana/web3.js";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import BigNumber from "bignumber.js";
 import BN from "bn.js";
 import { MARGINFI_IDL } from "../idl";
 import { AccountType, MarginfiProgram } from "../types";
 import { InstructionsWrapper } from "@mrgnlabs/mrgn-common";
 import instructions from "../instructions";
 import { FLASHLOAN_ENABLED_FLAG, TRANSFER_ACCOUNT_AUTHORITY_FLAG } from "../constants";
-import { BankConfigOptRaw } from "./bank";
+import { Bank, BankConfigCompact, BankConfigOptRaw, serializeBankConfigCompact } from "./bank";
+import { MarginfiAccount, makeHealthAccountMetas } from "./account";
 
 // ----------------------------------------------------------------------------
 // On-chain types
@@ -59,6 +61,41 @@ class MarginfiGroup {
     return await coder.accounts.encode(AccountType.MarginfiGroup, decoded);
   }
 
+  /**
+   * Create transaction instruction to initialize a new marginfi group. The group keypair is returned in `keys`
+   * and must sign the transaction alongside the admin.
+   */
+  static async makeGroupInitIx(
+    program: MarginfiProgram,
+    admin: PublicKey,
+    groupKeypair: Keypair = Keypair.generate()
+  ): Promise<InstructionsWrapper> {
+    const ix = await instructions.makeGroupInitIx(program, {
+      marginfiGroup: groupKeypair.publicKey,
+      admin,
+    });
+
+    return {
+      instructions: [ix],
+      keys: [groupKeypair],
+    };
+  }
+
+  /**
+   * Derive the address of a bank created with `lendingPoolAddBankWithSeed`.
+   */
+  static getBankWithSeedAddress(
+    programId: PublicKey,
+    marginfiGroup: PublicKey,
+    bankMint: PublicKey,
+    bankSeed: BN
+  ): PublicKey {
+    return PublicKey.findProgramAddressSync(
+      [marginfiGroup.toBuffer(), bankMint.toBuffer(), bankSeed.toArrayLike(Buffer, "le", 8)],
+      programId
+    )[0];
+  }
+
   // ----------------------------------------------------------------------------
   // Admin actions
   // ----------------------------------------------------------------------------
@@ -164,6 +201,167 @@ class MarginfiGroup {
       keys: [],
     };
   }
+
+  public async makeGroupConfigureIx(program: MarginfiProgram, newAdmin: PublicKey | null): Promise<InstructionsWrapper> {
+    const ix = await instructions.makeGroupConfigureIx(
+      program,
+      {
+        marginfiGroup: this.address,
+        admin: this.admin,
+      },
+      { newAdmin }
+    );
+
+    return {
+      instructions: [ix],
+      keys: [],
+    };
+  }
+
+  /**
+   * Create transaction instruction to add a bank to the group. The bank keypair is returned in `keys` and must sign
+   * the transaction alongside the admin.
+   */
+  public async makePoolAddBankIx(
+    program: MarginfiProgram,
+    bankMint: PublicKey,
+    bankConfig: BankConfigCompact,
+    opts?: { bankKeypair?: Keypair; feePayer?: PublicKey }
+  ): Promise<InstructionsWrapper> {
+    const bankKeypair = opts?.bankKeypair ?? Keypair.generate();
+
+    const ix = await instructions.makePoolAddBankIx(
+      program,
+      {
+        marginfiGroup: this.address,
+        admin: this.admin,
+        feePayer: opts?.feePayer ?? this.admin,
+        bankMint,
+        bank: bankKeypair.publicKey,
+      },
+      { bankConfig: serializeBankConfigCompact(bankConfig) }
+    );
+
+    return {
+      instructions: [ix],
+      keys: [bankKeypair],
+    };
+  }
+
+  public async makePoolAddBankWithSeedIx(
+    program: MarginfiProgram,
+    bankMint: PublicKey,
+    bankConfig: BankConfigCompact,
+    bankSeed: BN,
+    opts?: { feePayer?: PublicKey }
+  ): Promise<InstructionsWrapper> {
+    const ix = await instructions.makePoolAddBankWithSeedIx(
+      program,
+      {
+        marginfiGroup: this.address,
+        admin: this.admin,
+        feePayer: opts?.feePayer ?? this.admin,
+        bankMint,
+        bank: MarginfiGroup.getBankWithSeedAddress(program.programId, this.address, bankMint, bankSeed),
+      },
+      { bankConfig: serializeBankConfigCompact(bankConfig), bankSeed }
+    );
+
+    return {
+      instructions: [ix],
+      keys: [],
+    };
+  }
+
+  /**
+   * Create transaction instruction to set up emissions on a bank. `rate` and `totalEmissions` are native amounts of the
+   * emissions mint, `flags` is a combination of `EMISSIONS_FLAG_BORROW_ACTIVE` and `EMISSIONS_FLAG_LENDING_ACTIVE`.
+   */
+  public async makePoolSetupEmissionsIx(
+    program: MarginfiProgram,
+    bank: PublicKey,
+    emissionsMint: PublicKey,
+    emissionsFundingAccount: PublicKey,
+    args: { flags: number; rate: BigNumber; totalEmissions: BigNumber }
+  ): Promise<InstructionsWrapper> {
+    const ix = await instructions.makePoolSetupEmissionsIx(
+      program,
+      {
+        marginfiGroup: this.address,
+        admin: this.admin,
+        bank,
+        emissionsMint,
+        emissionsFundingAccount,
+      },
+      {
+        flags: new BN(args.flags),
+        rate: new BN(args.rate.toFixed(0)),
+        totalEmissions: new BN(args.totalEmissions.toFixed(0)),
+      }
+    );
+
+    return {
+      instructions: [ix],
+      keys: [],
+    };
+  }
+
+  public async makePoolUpdateEmissionsParametersIx(
+    program: MarginfiProgram,
+    bank: PublicKey,
+    emissionsMint: PublicKey,
+    emissionsFundingAccount: PublicKey,
+    args: { flags?: number | null; rate?: BigNumber | null; additionalEmissions?: BigNumber | null }
+  ): Promise<InstructionsWrapper> {
+    const ix = await instructions.makePoolUpdateEmissionsParametersIx(
+      program,
+      {
+        marginfiGroup: this.address,
+        admin: this.admin,
+        bank,
+        emissionsMint,
+        emissionsFundingAccount,
+      },
+      {
+        emissionsFlags: args.flags != null ? new BN(args.flags) : null,
+        emissionsRate: args.rate ? new BN(args.rate.toFixed(0)) : null,
+        additionalEmissions: args.additionalEmissions ? new BN(args.additionalEmissions.toFixed(0)) : null,
+      }
+    );
+
+    return {
+      instructions: [ix],
+      keys: [],
+    };
+  }
+
+  public async makePoolHandleBankruptcyIx(
+    program: MarginfiProgram,
+    bank: PublicKey,
+    marginfiAccount: MarginfiAccount,
+    banks: Map<string, Bank>
+  ): Promise<InstructionsWrapper> {
+    const remainingAccounts = makeHealthAccountMetas(
+      banks,
+      marginfiAccount.activeBalances.map((b) => b.bankPk)
+    );
+
+    const ix = await instructions.makePoolHandleBankruptcyIx(
+      program,
+      {
+        marginfiGroup: this.address,
+        admin: this.admin,
+        bank,
+        marginfiAccount: marginfiAccount.address,
+      },
+      remainingAccounts
+    );
+
+    return {
+      instructions: [ix],
+      keys: [],
+    };
+  }
 }
 
 export { MarginfiGroup };
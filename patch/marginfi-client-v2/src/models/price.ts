@@ -1,8 +1,17 @@
-import { parsePriceData } from "../vendor/pyth";
+import { parsePriceData, PriceStatus } from "../vendor/pyth";
+import { parsePriceUpdateV2, VerificationLevel } from "../vendor/pyth_push_oracle";
 import BigNumber from "bignumber.js";
 import { AggregatorAccountData, AggregatorAccount } from "../vendor/switchboard";
-import { PYTH_PRICE_CONF_INTERVALS, SWB_PRICE_CONF_INTERVALS, MAX_CONFIDENCE_INTERVAL_RATIO } from "..";
+import { parsePullFeedAccountData, PULL_FEED_PRECISION } from "../vendor/switchboard_pull";
+import {
+  PYTH_PRICE_CONF_INTERVALS,
+  SWB_PRICE_CONF_INTERVALS,
+  MAX_CONFIDENCE_INTERVAL_RATIO,
+  MAX_PRICE_AGE_SEC,
+} from "../constants";
 import { OracleSetup } from "./bank";
+import type { MarginRequirementType } from "./account";
+import { PublicKey } from "@solana/web3.js";
 
 interface PriceWithConfidence {
   price: BigNumber;
@@ -11,23 +20,130 @@ interface PriceWithConfidence {
   highestPrice: BigNumber;
 }
 
+enum OraclePriceStatus {
+  Trading = "Trading",
+  Halted = "Halted",
+  Unknown = "Unknown",
+}
+
 interface OraclePrice {
   priceRealtime: PriceWithConfidence;
   priceWeighted: PriceWithConfidence;
+  /** Policy the confidence intervals were derived with, also decides which price each requirement type uses */
+  confidencePolicy?: OracleConfidencePolicy;
+  /** Unix timestamp (seconds) of the published price, the one the program checks against the max age */
+  timestamp?: BigNumber;
+  publishSlot?: number;
+  status?: OraclePriceStatus;
+}
+
+interface OracleConfidencePolicy {
+  /** Multiplier turning the pyth confidence into the interval used for biased prices */
+  pythConfidenceIntervals: BigNumber;
+  /** Multiplier turning the switchboard standard deviation into the interval used for biased prices */
+  switchboardConfidenceIntervals: BigNumber;
+  /** Cap on the confidence interval, as a ratio of the price */
+  maxConfidenceIntervalRatio: BigNumber;
+  /** Requirement types valued with the weighted (EMA) price, the others use the realtime price. Defaults to `Initial` */
+  weightedPriceRequirementTypes?: MarginRequirementType[];
+}
+
+/**
+ * Default policy applied to every bank, plus per-bank overrides keyed by bank address.
+ */
+interface OracleConfidencePolicyConfig {
+  default?: Partial<OracleConfidencePolicy>;
+  banks?: { [bankAddress: string]: Partial<OracleConfidencePolicy> };
+}
+
+enum ReferencePriceType {
+  Oracle = "Oracle",
+  Bank = "Bank",
+  Provider = "Provider",
+}
+
+/**
+ * Secondary source a bank's price is compared against: another oracle account, the price of a pegged bank times
+ * `ratio` (defaults to 1), or a caller-supplied provider.
+ */
+type ReferencePriceSource =
+  | { type: ReferencePriceType.Oracle; oracleSetup: OracleSetup; oracleKey: PublicKey }
+  | { type: ReferencePriceType.Bank; bankAddress: PublicKey; ratio?: BigNumber.Value }
+  | { type: ReferencePriceType.Provider; getPrice: (bankAddress: PublicKey) => Promise<BigNumber.Value | null> };
+
+interface PriceSanityCheck {
+  reference: ReferencePriceSource;
+  /** Max relative distance between the bank's realtime price and the reference price, e.g. 0.02 for 2% */
+  maxDivergence: BigNumber.Value;
+}
+
+interface PriceDivergence {
+  bankAddress: PublicKey;
+  price: BigNumber;
+  referencePrice: BigNumber;
+  divergence: BigNumber;
+  isOutlier: boolean;
+}
+
+interface OracleStalenessPolicy {
+  /** Prices older than this are rejected on-chain with `StaleOracle` */
+  maxAgeSec: number;
+  /** Treat prices whose status is not `Trading` as unusable */
+  rejectNonTrading: boolean;
+}
+
+interface OraclePriceStaleness {
+  ageSec: number | null;
+  isStale: boolean;
+  isHalted: boolean;
 }
 
+// Matches the program
+const DEFAULT_ORACLE_CONFIDENCE_POLICY: OracleConfidencePolicy = {
+  pythConfidenceIntervals: PYTH_PRICE_CONF_INTERVALS,
+  switchboardConfidenceIntervals: SWB_PRICE_CONF_INTERVALS,
+  maxConfidenceIntervalRatio: MAX_CONFIDENCE_INTERVAL_RATIO,
+};
+
+const DEFAULT_ORACLE_STALENESS_POLICY: OracleStalenessPolicy = {
+  maxAgeSec: MAX_PRICE_AGE_SEC,
+  rejectNonTrading: true,
+};
+
 enum PriceBias {
   Lowest = 0,
   None = 1,
   Highest = 2,
 }
 
-function parseOraclePriceData(oracleSetup: OracleSetup, rawData: Buffer): OraclePrice {
+enum PriceShockType {
+  Absolute = "Absolute",
+  Percentage = "Percentage",
+}
+
+/**
+ * Hypothetical price move. `Absolute` pins both realtime and weighted prices to `price` (USD),
+ * `Percentage` moves them by `change` as a fraction (e.g. -0.3 for a 30% drop).
+ */
+type PriceShock = { type: PriceShockType.Absolute; price: BigNumber.Value } | { type: PriceShockType.Percentage; change: number };
+
+/**
+ * @param rawData Data of the bank's first oracle key, the price account. Any other oracle key is only passed to the
+ * program as a remaining account and plays no part in the price
+ */
+function parseOraclePriceData(
+  oracleSetup: OracleSetup,
+  rawData: Buffer,
+  confidencePolicy: OracleConfidencePolicy = DEFAULT_ORACLE_CONFIDENCE_POLICY
+): OraclePrice {
   const debug = require("debug")("mfi:oracle-loader");
   switch (oracleSetup) {
     case OracleSetup.PythEma:
       const pythPriceData = parsePriceData(rawData);
 
+      // Mirrors the pyth sdk: when the aggregate is not trading, the previous price and its timestamp are used
+      const pythIsTrading = pythPriceData.status === PriceStatus.Trading;
+
       let priceData = pythPriceData.price;
       if (priceData === undefined) {
         priceData = pythPriceData.previousPrice;
@@ -39,15 +155,15 @@ function parseOraclePriceData(oracleSetup: OracleSetup, rawData: Buffer): Oracle
       }
 
       const pythPriceRealtime = new BigNumber(priceData!);
-      const pythConfidenceRealtime = new BigNumber(confidenceData!).times(PYTH_PRICE_CONF_INTERVALS);
-      const maxPythConfidenceRealtime = pythPriceRealtime.times(MAX_CONFIDENCE_INTERVAL_RATIO);
+      const pythConfidenceRealtime = new BigNumber(confidenceData!).times(confidencePolicy.pythConfidenceIntervals);
+      const maxPythConfidenceRealtime = pythPriceRealtime.times(confidencePolicy.maxConfidenceIntervalRatio);
       const pythConfidenceRealtimeCapped = BigNumber.min(pythConfidenceRealtime, maxPythConfidenceRealtime);
       const pythLowestPriceRealtime = pythPriceRealtime.minus(pythConfidenceRealtimeCapped);
       const pythHighestPriceRealtime = pythPriceRealtime.plus(pythConfidenceRealtimeCapped);
 
       const pythPriceWeighted = new BigNumber(pythPriceData.emaPrice.value);
-      const pythConfIntervalWeighted = new BigNumber(pythPriceData.emaConfidence.value).times(PYTH_PRICE_CONF_INTERVALS);
-      const maxPythConfidenceWeighted = pythPriceWeighted.times(MAX_CONFIDENCE_INTERVAL_RATIO);
+      const pythConfIntervalWeighted = new BigNumber(pythPriceData.emaConfidence.value).times(confidencePolicy.pythConfidenceIntervals);
+      const maxPythConfidenceWeighted = pythPriceWeighted.times(confidencePolicy.maxConfidenceIntervalRatio);
       const pythConfIntervalWeightedCapped = BigNumber.min(pythConfIntervalWeighted, maxPythConfidenceWeighted);
       const pythLowestPrice = pythPriceWeighted.minus(pythConfIntervalWeightedCapped);
       const pythHighestPrice = pythPriceWeighted.plus(pythConfIntervalWeightedCapped);
@@ -55,6 +171,7 @@ function parseOraclePriceData(oracleSetup: OracleSetup, rawData: Buffer): Oracle
       debug("Loaded pyth price rt=%s (+/- %s), w=%s (+/- %s)", pythPriceRealtime.toString(), pythConfidenceRealtimeCapped.toString(), pythPriceWeighted.toString(), pythConfIntervalWeightedCapped.toString());
 
       return {
+        confidencePolicy,
         priceRealtime: {
           price: pythPriceRealtime,
           confidence: pythConfidenceRealtimeCapped,
@@ -67,14 +184,60 @@ function parseOraclePriceData(oracleSetup: OracleSetup, rawData: Buffer): Oracle
           lowestPrice: pythLowestPrice,
           highestPrice: pythHighestPrice,
         },
+        timestamp: new BigNumber(
+          (pythIsTrading ? pythPriceData.timestamp : pythPriceData.previousTimestamp).toString()
+        ),
+        publishSlot: pythIsTrading ? pythPriceData.aggregate.publishSlot : Number(pythPriceData.previousSlot),
+        status: parsePythPriceStatus(pythPriceData.status),
+      };
+
+    case OracleSetup.PythPushOracle:
+      const priceUpdate = parsePriceUpdateV2(rawData);
+      const priceMessage = priceUpdate.priceMessage;
+
+      const pythPushPriceRealtime = new BigNumber(priceMessage.price);
+      const pythPushConfidenceRealtime = new BigNumber(priceMessage.confidence).times(
+        confidencePolicy.pythConfidenceIntervals
+      );
+      const maxPythPushConfidenceRealtime = pythPushPriceRealtime.times(confidencePolicy.maxConfidenceIntervalRatio);
+      const pythPushConfidenceRealtimeCapped = BigNumber.min(pythPushConfidenceRealtime, maxPythPushConfidenceRealtime);
+
+      const pythPushPriceWeighted = new BigNumber(priceMessage.emaPrice);
+      const pythPushConfidenceWeighted = new BigNumber(priceMessage.emaConfidence).times(
+        confidencePolicy.pythConfidenceIntervals
+      );
+      const maxPythPushConfidenceWeighted = pythPushPriceWeighted.times(confidencePolicy.maxConfidenceIntervalRatio);
+      const pythPushConfidenceWeightedCapped = BigNumber.min(pythPushConfidenceWeighted, maxPythPushConfidenceWeighted);
+
+      debug("Loaded pyth push price rt=%s (+/- %s), w=%s (+/- %s)", pythPushPriceRealtime.toString(), pythPushConfidenceRealtimeCapped.toString(), pythPushPriceWeighted.toString(), pythPushConfidenceWeightedCapped.toString());
+
+      return {
+        confidencePolicy,
+        priceRealtime: {
+          price: pythPushPriceRealtime,
+          confidence: pythPushConfidenceRealtimeCapped,
+          lowestPrice: pythPushPriceRealtime.minus(pythPushConfidenceRealtimeCapped),
+          highestPrice: pythPushPriceRealtime.plus(pythPushConfidenceRealtimeCapped),
+        },
+        priceWeighted: {
+          price: pythPushPriceWeighted,
+          confidence: pythPushConfidenceWeightedCapped,
+          lowestPrice: pythPushPriceWeighted.minus(pythPushConfidenceWeightedCapped),
+          highestPrice: pythPushPriceWeighted.plus(pythPushConfidenceWeightedCapped),
+        },
+        timestamp: new BigNumber(priceMessage.publishTime.toString()),
+        publishSlot: Number(priceUpdate.postedSlot),
+        // The program only accepts fully verified updates
+        status:
+          priceUpdate.verificationLevel === VerificationLevel.Full ? OraclePriceStatus.Trading : OraclePriceStatus.Unknown,
       };
 
     case OracleSetup.SwitchboardV2:
       const aggData = AggregatorAccountData.decode(rawData);
 
       const swbPrice = new BigNumber(AggregatorAccount.decodeLatestValue(aggData)!.toString());
-      const swbConfidence = new BigNumber(aggData.latestConfirmedRound.stdDeviation.toBig().toString()).times(SWB_PRICE_CONF_INTERVALS);
-      const maxSwbConfidence = swbPrice.times(MAX_CONFIDENCE_INTERVAL_RATIO);
+      const swbConfidence = new BigNumber(aggData.latestConfirmedRound.stdDeviation.toBig().toString()).times(confidencePolicy.switchboardConfidenceIntervals);
+      const maxSwbConfidence = swbPrice.times(confidencePolicy.maxConfidenceIntervalRatio);
       const swbConfidenceCapped = BigNumber.min(swbConfidence, maxSwbConfidence);
       const swbLowestPrice = swbPrice.minus(swbConfidenceCapped);
       const swbHighestPrice = swbPrice.plus(swbConfidenceCapped);
@@ -82,6 +245,7 @@ function parseOraclePriceData(oracleSetup: OracleSetup, rawData: Buffer): Oracle
       debug("Loaded swb price rt=%s (+/- %s), w=%s (+/- %s)", swbPrice.toString(), swbConfidenceCapped.toString(), swbPrice.toString(), swbConfidenceCapped.toString());
 
       return {
+        confidencePolicy,
         priceRealtime: {
           price: swbPrice,
           confidence: swbConfidenceCapped,
@@ -94,6 +258,42 @@ function parseOraclePriceData(oracleSetup: OracleSetup, rawData: Buffer): Oracle
           lowestPrice: swbLowestPrice,
           highestPrice: swbHighestPrice,
         },
+        timestamp: new BigNumber(aggData.latestConfirmedRound.roundOpenTimestamp.toString()),
+        publishSlot: aggData.latestConfirmedRound.roundOpenSlot.toNumber(),
+        status: OraclePriceStatus.Trading,
+      };
+
+    case OracleSetup.SwitchboardPull:
+      const pullFeed = parsePullFeedAccountData(rawData);
+
+      const swbPullPrice = new BigNumber(pullFeed.result.value.toString()).shiftedBy(-PULL_FEED_PRECISION);
+      const swbPullConfidence = new BigNumber(pullFeed.result.stdDev.toString())
+        .shiftedBy(-PULL_FEED_PRECISION)
+        .times(confidencePolicy.switchboardConfidenceIntervals);
+      const maxSwbPullConfidence = swbPullPrice.times(confidencePolicy.maxConfidenceIntervalRatio);
+      const swbPullConfidenceCapped = BigNumber.min(swbPullConfidence, maxSwbPullConfidence);
+      const swbPullLowestPrice = swbPullPrice.minus(swbPullConfidenceCapped);
+      const swbPullHighestPrice = swbPullPrice.plus(swbPullConfidenceCapped);
+
+      debug("Loaded swb pull price rt=%s (+/- %s), w=%s (+/- %s)", swbPullPrice.toString(), swbPullConfidenceCapped.toString(), swbPullPrice.toString(), swbPullConfidenceCapped.toString());
+
+      return {
+        confidencePolicy,
+        priceRealtime: {
+          price: swbPullPrice,
+          confidence: swbPullConfidenceCapped,
+          lowestPrice: swbPullLowestPrice,
+          highestPrice: swbPullHighestPrice,
+        },
+        priceWeighted: {
+          price: swbPullPrice,
+          confidence: swbPullConfidenceCapped,
+          lowestPrice: swbPullLowestPrice,
+          highestPrice: swbPullHighestPrice,
+        },
+        timestamp: new BigNumber(pullFeed.lastUpdateTimestamp.toString()),
+        publishSlot: Number(pullFeed.result.slot),
+        status: pullFeed.result.numSamples > 0 ? OraclePriceStatus.Trading : OraclePriceStatus.Unknown,
       };
 
     default:
@@ -102,10 +302,121 @@ function parseOraclePriceData(oracleSetup: OracleSetup, rawData: Buffer): Oracle
   }
 }
 
+function parsePythPriceStatus(status: PriceStatus): OraclePriceStatus {
+  switch (status) {
+    case PriceStatus.Trading:
+      return OraclePriceStatus.Trading;
+    case PriceStatus.Halted:
+      return OraclePriceStatus.Halted;
+    default:
+      return OraclePriceStatus.Unknown;
+  }
+}
+
+/**
+ * Evaluates `oraclePrice` the way the program does before using it. Prices without publish metadata (e.g. built by
+ * hand) are never considered stale.
+ *
+ * @param currentTimestamp Unix timestamp in seconds, defaults to the local clock
+ */
+export function getOraclePriceStaleness(
+  oraclePrice: OraclePrice,
+  policy: OracleStalenessPolicy = DEFAULT_ORACLE_STALENESS_POLICY,
+  currentTimestamp: number = Math.floor(Date.now() / 1000)
+): OraclePriceStaleness {
+  const ageSec = oraclePrice.timestamp ? Math.max(0, currentTimestamp - oraclePrice.timestamp.toNumber()) : null;
+  const isHalted = oraclePrice.status !== undefined && oraclePrice.status !== OraclePriceStatus.Trading;
+  return {
+    ageSec,
+    isStale: (ageSec !== null && ageSec > policy.maxAgeSec) || (policy.rejectNonTrading && isHalted),
+    isHalted,
+  };
+}
+
+/**
+ * Policy for `bankAddress`: program defaults, overridden by `config.default`, overridden by the bank's own entry.
+ */
+export function resolveOracleConfidencePolicy(
+  config: OracleConfidencePolicyConfig | undefined,
+  bankAddress: PublicKey
+): OracleConfidencePolicy {
+  return {
+    ...DEFAULT_ORACLE_CONFIDENCE_POLICY,
+    ...config?.default,
+    ...config?.banks?.[bankAddress.toBase58()],
+  };
+}
+
+export function computePriceDivergence(
+  bankAddress: PublicKey,
+  oraclePrice: OraclePrice,
+  referencePrice: BigNumber,
+  maxDivergence: BigNumber.Value
+): PriceDivergence {
+  if (referencePrice.lte(0)) throw Error(`Invalid reference price ${referencePrice.toString()}`);
+  const price = oraclePrice.priceRealtime.price;
+  const divergence = price.minus(referencePrice).abs().div(referencePrice);
+  return {
+    bankAddress,
+    price,
+    referencePrice,
+    divergence,
+    isOutlier: divergence.gt(maxDivergence),
+  };
+}
+
 export function getPriceWithConfidence(oraclePrice: OraclePrice, weighted: boolean): PriceWithConfidence {
   return weighted ? oraclePrice.priceWeighted : oraclePrice.priceRealtime;
 }
 
-export { parseOraclePriceData as parsePriceInfo, PriceBias };
+/**
+ * Returns a copy of `oraclePrice` moved by `shock`. Confidence intervals keep their ratio to the price.
+ */
+export function applyPriceShock(oraclePrice: OraclePrice, shock: PriceShock): OraclePrice {
+  const shockPrice = (priceWithConfidence: PriceWithConfidence): PriceWithConfidence => {
+    const price =
+      shock.type === PriceShockType.Absolute
+        ? new BigNumber(shock.price)
+        : priceWithConfidence.price.times(1 + shock.change);
+    if (price.lte(0)) throw Error(`Invalid shocked price ${price.toString()}`);
+
+    const confidence = priceWithConfidence.price.isZero()
+      ? new BigNumber(0)
+      : priceWithConfidence.confidence.times(price).div(priceWithConfidence.price);
+    return {
+      price,
+      confidence,
+      lowestPrice: price.minus(confidence),
+      highestPrice: price.plus(confidence),
+    };
+  };
+
+  return {
+    ...oraclePrice,
+    priceRealtime: shockPrice(oraclePrice.priceRealtime),
+    priceWeighted: shockPrice(oraclePrice.priceWeighted),
+  };
+}
+
+export {
+  parseOraclePriceData as parsePriceInfo,
+  PriceBias,
+  PriceShockType,
+  OraclePriceStatus,
+  ReferencePriceType,
+  DEFAULT_ORACLE_CONFIDENCE_POLICY,
+  DEFAULT_ORACLE_STALENESS_POLICY,
+};
 
-export type { OraclePrice };
+export type {
+  OraclePrice,
+  PriceWithConfidence,
+  PriceShock,
+  OracleConfidencePolicy,
+  OracleConfidencePolicyConfig,
+  OracleStalenessPolicy,
+  OraclePriceStaleness,
+  ReferencePriceSource,
+  PriceSanityCheck,
+  PriceDivergence,
+};
@@ -0,0 +1,311 @@
+import {
+  Commitment,
+  Connection,
+  SendTransactionError,
+  TransactionSignature,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { bs58 } from "@coral-xyz/anchor/dist/cjs/utils/bytes";
+import { sleep } from "@mrgnlabs/mrgn-common";
+import axios from "axios";
+import { ProcessTransactionError, ProcessTransactionErrorType } from "./errors";
+import { JsonRpcPost, axiosJsonRpcPost } from "./bundle";
+
+export const DEFAULT_BLOCK_ENGINE_URL = "https://mainnet.block-engine.jito.wtf/api/v1/transactions";
+
+const DEFAULT_POLL_INTERVAL_MS = 400;
+const DEFAULT_TIMEOUT_MS = 90_000;
+
+// Deprecated aliases rank with the level they stand for
+const COMMITMENT_RANK: { [status: string]: number } = {
+  processed: 0,
+  recent: 0,
+  confirmed: 1,
+  single: 1,
+  singleGossip: 1,
+  finalized: 2,
+  root: 2,
+  max: 2,
+};
+
+// ----------------------------------------------------------------------------
+// Client types
+// ----------------------------------------------------------------------------
+
+/**
+ * Built-in strategies selectable through `MarginfiClientOptions.transactionSenderType`.
+ */
+export enum TransactionSenderType {
+  Standard = "Standard",
+  Rebroadcast = "Rebroadcast",
+  FanOut = "FanOut",
+  BlockEngine = "BlockEngine",
+}
+
+/**
+ * Blockhash context the transaction was built against, used to bound confirmation.
+ */
+export interface SendContext {
+  blockhash: string;
+  lastValidBlockHeight: number;
+  minContextSlot?: number;
+  /** Overrides the sender's commitment target for this transaction */
+  commitment?: Commitment;
+  /** Overrides the sender's connection for this transaction, dedicated send endpoints are still used */
+  connection?: Connection;
+  /** Skips preflight, or the simulation of senders configured with `simulate` */
+  skipPreflight?: boolean;
+  /** Commitment preflight runs against, defaults to the connection's */
+  preflightCommitment?: Commitment;
+  /** Retries left to the RPC node by the standard sender, senders rebroadcasting themselves always use 0 */
+  maxRetries?: number;
+}
+
+export interface TransactionSenderConfig {
+  /** Commitment the transaction must reach before the signature is returned, defaults to the connection's */
+  commitment?: Commitment;
+  /** Delay between two signature status polls */
+  pollIntervalMs?: number;
+  /** Give up after this long even if the blockhash is still valid */
+  timeoutMs?: number;
+}
+
+/**
+ * Sends a signed transaction and resolves once it reaches the target commitment.
+ */
+export interface TransactionSender {
+  sendAndConfirm(transaction: VersionedTransaction, context: SendContext): Promise<TransactionSignature>;
+}
+
+// ----------------------------------------------------------------------------
+// Strategies
+// ----------------------------------------------------------------------------
+
+/**
+ * Single `sendTransaction` with preflight, leaving retries to the RPC node.
+ */
+export class StandardTransactionSender implements TransactionSender {
+  constructor(readonly connection: Connection, readonly config: TransactionSenderConfig = {}) {}
+
+  async sendAndConfirm(transaction: VersionedTransaction, context: SendContext): Promise<TransactionSignature> {
+    const connection = context.connection ?? this.connection;
+    const signature = await connection.sendTransaction(transaction, {
+      skipPreflight: context.skipPreflight,
+      preflightCommitment: context.preflightCommitment ?? connection.commitment,
+      maxRetries: context.maxRetries,
+      minContextSlot: context.minContextSlot,
+    });
+    await waitForConfirmation(connection, signature, context, this.config);
+    return signature;
+  }
+}
+
+/**
+ * Re-sends the raw transaction with `maxRetries: 0` on every poll until it lands, optionally simulating it first since
+ * preflight is skipped.
+ */
+export class RebroadcastTransactionSender implements TransactionSender {
+  constructor(
+    readonly connection: Connection,
+    readonly config: TransactionSenderConfig & { sendConnection?: Connection; simulate?: boolean } = {}
+  ) {}
+
+  async sendAndConfirm(transaction: VersionedTransaction, context: SendContext): Promise<TransactionSignature> {
+    const connection = context.connection ?? this.connection;
+    if (this.config.simulate && !context.skipPreflight) await simulateOrThrow(connection, transaction, context);
+
+    const sendConnection = this.config.sendConnection ?? connection;
+    const rawTransaction = transaction.serialize();
+    const broadcast = () =>
+      sendConnection.sendRawTransaction(rawTransaction, { skipPreflight: true, maxRetries: 0 });
+
+    const signature = await broadcast();
+    await waitForConfirmation(connection, signature, context, this.config, broadcast);
+    return signature;
+  }
+}
+
+/**
+ * Broadcasts the raw transaction to several endpoints at once on every poll, confirming through `connection`.
+ */
+export class FanOutTransactionSender implements TransactionSender {
+  constructor(
+    readonly connection: Connection,
+    readonly sendConnections: Connection[],
+    readonly config: TransactionSenderConfig & { simulate?: boolean } = {}
+  ) {
+    if (sendConnections.length === 0) throw Error("At least one send connection is required");
+  }
+
+  async sendAndConfirm(transaction: VersionedTransaction, context: SendContext): Promise<TransactionSignature> {
+    const connection = context.connection ?? this.connection;
+    if (this.config.simulate && !context.skipPreflight) await simulateOrThrow(connection, transaction, context);
+
+    const debug = require("debug")("mfi:sender:fan-out");
+    const rawTransaction = transaction.serialize();
+    const broadcast = async () => {
+      const results = await Promise.allSettled(
+        this.sendConnections.map((c) => c.sendRawTransaction(rawTransaction, { skipPreflight: true, maxRetries: 0 }))
+      );
+      results
+        .filter((r): r is PromiseRejectedResult => r.status === "rejected")
+        .forEach((r) => debug("Endpoint failed to accept transaction: %s", r.reason));
+    };
+
+    const signature = bs58.encode(transaction.signatures[0]);
+    await broadcast();
+    await waitForConfirmation(connection, signature, context, this.config, broadcast);
+    return signature;
+  }
+}
+
+/**
+ * Submits the transaction through a block engine's JSON-RPC `sendTransaction` endpoint, then rebroadcasts through
+ * `connection` while waiting for confirmation. Submission is retried while the engine is unreachable, rate limited
+ * or failing, but a JSON-RPC error or any other HTTP error rejects the transaction right away.
+ */
+export class BlockEngineTransactionSender implements TransactionSender {
+  constructor(
+    readonly connection: Connection,
+    readonly config: TransactionSenderConfig & {
+      endpoint?: string;
+      submitRetryIntervalMs?: number;
+      post?: JsonRpcPost;
+    } = {}
+  ) {}
+
+  async sendAndConfirm(transaction: VersionedTransaction, context: SendContext): Promise<TransactionSignature> {
+    const debug = require("debug")("mfi:sender:block-engine");
+    const endpoint = this.config.endpoint ?? DEFAULT_BLOCK_ENGINE_URL;
+    const rawTransaction = transaction.serialize();
+    const payload = {
+      jsonrpc: "2.0",
+      id: 1,
+      method: "sendTransaction",
+      params: [bs58.encode(rawTransaction), { maxRetries: 0, skipPreflight: true, preflightCommitment: "processed" }],
+    };
+
+    const post = this.config.post ?? axiosJsonRpcPost;
+    const startTime = Date.now();
+    let signature: TransactionSignature;
+    while (true) {
+      try {
+        const response = await post<TransactionSignature>(endpoint, payload);
+        if (response.error || !response.result) {
+          throw new ProcessTransactionError(
+            `Block engine rejected transaction: ${JSON.stringify(response.error)}`,
+            ProcessTransactionErrorType.FallthroughError
+          );
+        }
+        signature = response.result;
+        break;
+      } catch (error) {
+        if (error instanceof ProcessTransactionError) throw error;
+        if (!isRetryableHttpError(error)) {
+          throw new ProcessTransactionError(
+            `Block engine rejected transaction: ${error}`,
+            ProcessTransactionErrorType.FallthroughError
+          );
+        }
+        debug("Block engine unavailable: %s", error);
+        if (Date.now() - startTime > (this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS)) {
+          throw new ProcessTransactionError(
+            "Transaction was not accepted by the block engine within the allotted time",
+            ProcessTransactionErrorType.TimeoutError
+          );
+        }
+      }
+      await sleep(this.config.submitRetryIntervalMs ?? 500);
+    }
+    debug("Block engine accepted transaction %s", signature);
+
+    const connection = context.connection ?? this.connection;
+    const broadcast = () => connection.sendRawTransaction(rawTransaction, { skipPreflight: true, maxRetries: 0 });
+    await waitForConfirmation(connection, signature, context, this.config, broadcast);
+    return signature;
+  }
+}
+
+/**
+ * Records transactions instead of sending them, for tests. Set `error` to make every send fail.
+ */
+export class MockTransactionSender implements TransactionSender {
+  public sent: { transaction: VersionedTransaction; context: SendContext }[] = [];
+  public error: Error | null = null;
+
+  async sendAndConfirm(transaction: VersionedTransaction, context: SendContext): Promise<TransactionSignature> {
+    if (this.error) throw this.error;
+    this.sent.push({ transaction, context });
+    return bs58.encode(transaction.signatures[0]);
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Helpers
+// ----------------------------------------------------------------------------
+
+/**
+ * Poll the signature status until it reaches the target commitment, the blockhash expires or the timeout elapses.
+ * `onPoll` runs before every poll, e.g. to rebroadcast.
+ */
+async function waitForConfirmation(
+  connection: Connection,
+  signature: TransactionSignature,
+  context: SendContext,
+  config: TransactionSenderConfig,
+  onPoll?: () => Promise<unknown>
+): Promise<void> {
+  const debug = require("debug")("mfi:sender");
+  const commitment = context.commitment ?? config.commitment ?? connection.commitment ?? "confirmed";
+  const targetRank = COMMITMENT_RANK[commitment] ?? COMMITMENT_RANK.confirmed;
+  const pollIntervalMs = config.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const startTime = Date.now();
+
+  while (true) {
+    const { value: status } = await connection.getSignatureStatus(signature, { searchTransactionHistory: false });
+    if (status?.err) {
+      throw new ProcessTransactionError(
+        `Transaction ${signature} failed: ${JSON.stringify(status.err)}`,
+        ProcessTransactionErrorType.FallthroughError
+      );
+    }
+    if (status?.confirmationStatus && COMMITMENT_RANK[status.confirmationStatus] >= targetRank) {
+      debug("Transaction %s reached %s", signature, status.confirmationStatus);
+      return;
+    }
+
+    const blockHeight = await connection.getBlockHeight();
+    if (blockHeight > context.lastValidBlockHeight || Date.now() - startTime > timeoutMs) {
+      throw new ProcessTransactionError(
+        "Transaction was not confirmed within the allotted time",
+        ProcessTransactionErrorType.TimeoutError
+      );
+    }
+
+    await sleep(pollIntervalMs);
+    if (onPoll) {
+      await onPoll().catch((error) => debug("Rebroadcast failed: %s", error));
+    }
+  }
+}
+
+/**
+ * Network failures, rate limiting and server errors may clear up, other HTTP errors would only repeat.
+ */
+function isRetryableHttpError(error: unknown): boolean {
+  if (!axios.isAxiosError(error) || !error.response) return true;
+  const { status } = error.response;
+  return status === 429 || status >= 500;
+}
+
+async function simulateOrThrow(connection: Connection, transaction: VersionedTransaction, context: SendContext) {
+  const response = await connection.simulateTransaction(transaction, {
+    commitment: context.preflightCommitment ?? connection.commitment,
+    minContextSlot: context.minContextSlot,
+    sigVerify: false,
+  });
+  if (response.value.err) {
+    throw new SendTransactionError(JSON.stringify(response.value.err), response.value.logs ?? []);
+  }
+}
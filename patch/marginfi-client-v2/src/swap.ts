@@ -0,0 +1,164 @@
+import { AddressLookupTableAccount, PublicKey, TransactionInstruction } from "@solana/web3.js";
+import BigNumber from "bignumber.js";
+
+const MEMO_PROGRAM_ID = new PublicKey("MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr");
+
+// ----------------------------------------------------------------------------
+// Client types
+// ----------------------------------------------------------------------------
+
+export enum SwapMode {
+  /** `amount` is the exact input, the output varies */
+  ExactIn = "ExactIn",
+  /** `amount` is the exact output, the input varies */
+  ExactOut = "ExactOut",
+}
+
+/**
+ * Amounts are in native units of the respective mint.
+ */
+export interface SwapQuoteRequest {
+  inputMint: PublicKey;
+  outputMint: PublicKey;
+  amount: BigNumber;
+  slippageBps: number;
+  /** Defaults to `SwapMode.ExactIn` */
+  swapMode?: SwapMode;
+}
+
+export interface SwapQuote {
+  inputMint: PublicKey;
+  outputMint: PublicKey;
+  swapMode: SwapMode;
+  inAmount: BigNumber;
+  outAmount: BigNumber;
+  /** Largest input the swap instructions may consume, given the slippage tolerance. Equals `inAmount` for ExactIn */
+  maxInAmount: BigNumber;
+  /** Smallest output the swap instructions accept, given the slippage tolerance. Equals `outAmount` for ExactOut */
+  minOutAmount: BigNumber;
+  slippageBps: number;
+  /** Provider-specific quote payload, handed back to `buildSwap` */
+  raw?: unknown;
+}
+
+export interface SwapInstructions {
+  instructions: TransactionInstruction[];
+  /** Lookup tables the instructions rely on, to be passed along when compiling the transaction */
+  addressLookupTableAccounts: AddressLookupTableAccount[];
+}
+
+/**
+ * Source of swap quotes and instructions for the flash-loan helpers (e.g. a Jupiter API client).
+ */
+export interface SwapProvider {
+  quote(request: SwapQuoteRequest): Promise<SwapQuote>;
+  buildSwap(quote: SwapQuote, userPublicKey: PublicKey): Promise<SwapInstructions>;
+}
+
+export interface MockSwapToken {
+  mint: PublicKey;
+  /** USD price of one UI unit */
+  price: number;
+  decimals: number;
+}
+
+export interface MockSwapProviderConfig {
+  /** Fill price deviation from the configured prices, always against the trader */
+  priceImpactBps?: number;
+  /** Returned as-is from `buildSwap` */
+  addressLookupTableAccounts?: AddressLookupTableAccount[];
+}
+
+// ----------------------------------------------------------------------------
+// Providers
+// ----------------------------------------------------------------------------
+
+/**
+ * In-process provider filling at configured prices, for exercising the swap flows offline. Quotes are deterministic
+ * and the swap instructions are a single memo describing the trade, so transactions built with it do not move tokens.
+ */
+export class MockSwapProvider implements SwapProvider {
+  private tokens: Map<string, MockSwapToken>;
+
+  constructor(tokens: MockSwapToken[], readonly config: MockSwapProviderConfig = {}) {
+    this.tokens = new Map(tokens.map((token) => [token.mint.toBase58(), token]));
+  }
+
+  setPrice(mint: PublicKey, price: number) {
+    const token = this.getToken(mint);
+    this.tokens.set(mint.toBase58(), { ...token, price });
+  }
+
+  async quote(request: SwapQuoteRequest): Promise<SwapQuote> {
+    const { inputMint, outputMint, amount, slippageBps, swapMode = SwapMode.ExactIn } = request;
+    if (amount.lte(0)) throw Error("Swap amount must be positive");
+
+    const input = this.getToken(inputMint);
+    const output = this.getToken(outputMint);
+    const impact = new BigNumber(this.config.priceImpactBps ?? 0).div(10_000);
+    const slippage = new BigNumber(slippageBps).div(10_000);
+    // native output units per native input unit
+    const rate = new BigNumber(input.price).div(output.price).shiftedBy(output.decimals - input.decimals);
+
+    if (swapMode === SwapMode.ExactIn) {
+      const outAmount = amount
+        .times(rate)
+        .times(new BigNumber(1).minus(impact))
+        .integerValue(BigNumber.ROUND_DOWN);
+      const minOutAmount = outAmount.times(new BigNumber(1).minus(slippage)).integerValue(BigNumber.ROUND_DOWN);
+      return {
+        inputMint,
+        outputMint,
+        swapMode,
+        inAmount: amount,
+        outAmount,
+        maxInAmount: amount,
+        minOutAmount,
+        slippageBps,
+      };
+    }
+
+    const inAmount = amount
+      .div(rate)
+      .div(new BigNumber(1).minus(impact))
+      .integerValue(BigNumber.ROUND_UP);
+    const maxInAmount = inAmount.times(new BigNumber(1).plus(slippage)).integerValue(BigNumber.ROUND_UP);
+    return {
+      inputMint,
+      outputMint,
+      swapMode,
+      inAmount,
+      outAmount: amount,
+      maxInAmount,
+      minOutAmount: amount,
+      slippageBps,
+    };
+  }
+
+  async buildSwap(quote: SwapQuote, userPublicKey: PublicKey): Promise<SwapInstructions> {
+    const memo = [
+      "mock swap",
+      quote.inAmount.toFixed(),
+      quote.inputMint.toBase58(),
+      "for",
+      quote.outAmount.toFixed(),
+      quote.outputMint.toBase58(),
+    ].join(" ");
+    return {
+      instructions: [
+        new TransactionInstruction({
+          programId: MEMO_PROGRAM_ID,
+          keys: [{ pubkey: userPublicKey, isSigner: true, isWritable: false }],
+          data: Buffer.from(memo, "utf-8"),
+        }),
+      ],
+      addressLookupTableAccounts: this.config.addressLookupTableAccounts ?? [],
+    };
+  }
+
+  private getToken(mint: PublicKey): MockSwapToken {
+    const token = this.tokens.get(mint.toBase58());
+    if (!token) throw Error(`No mock price configured for mint ${mint.toBase58()}`);
+    return token;
+  }
+}
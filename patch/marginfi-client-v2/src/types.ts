@@ -1,4 +1,4 @@
-import { PublicKey } from "@solana/web3.js";
+import { AccountInfo, Commitment, Context, PublicKey } from "@solana/web3.js";
 import { Marginfi } from "./idl/marginfi-types";
 import { Program } from "@mrgnlabs/mrgn-common";
 
@@ -25,6 +25,18 @@ export interface MarginfiConfig {
   groupPk: PublicKey;
 }
 
+/**
+ * Subset of `Connection` used for websocket account subscriptions, so that a mock can be injected in tests.
+ */
+export interface AccountSubscriptionConnection {
+  onAccountChange(
+    publicKey: PublicKey,
+    callback: (accountInfo: AccountInfo<Buffer>, context: Context) => void,
+    commitment?: Commitment
+  ): number;
+  removeAccountChangeListener(subscriptionId: number): Promise<void>;
+}
+
 export interface BankAddress {
   label: string;
   address: PublicKey;
@@ -24,8 +24,10 @@ import {
   createSyncNativeInstruction,
   createCloseAccountInstruction,
   getAssociatedTokenAddressSync,
+  WrappedI80F48,
 } from "@mrgnlabs/mrgn-common";
 import BigNumber from "bignumber.js";
+import BN from "bn.js";
 
 export function getBankVaultSeeds(type: BankVaultType): Buffer {
   switch (type) {
@@ -102,3 +104,11 @@ export async function makeVersionedTransaction(
 
   return new VersionedTransaction(versionedMessage);
 }
+
+/**
+ * Converts a decimal value into the on-chain I80F48 fixed point representation (48 fractional bits).
+ */
+export function bigNumberToWrappedI80F48(value: BigNumber.Value): WrappedI80F48 {
+  const scaled = new BigNumber(value).times(new BigNumber(2).pow(48)).integerValue(BigNumber.ROUND_FLOOR);
+  return { value: new BN(scaled.toFixed()) };
+}
@@ -0,0 +1,130 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PublicKey } from "@solana/web3.js";
+import BigNumber from "bignumber.js";
+import BN from "bn.js";
+import { MockSwapProvider, SwapMode } from "../src/swap";
+import { Bank, BankConfig, OperationalState, OracleSetup, RiskTier } from "../src/models/bank";
+import { Balance } from "../src/models/balance";
+import { computeRepayAllSwapAmount } from "../src/models/account/leverage";
+import { REPAY_ALL_INTEREST_BUFFER_SEC } from "../src/constants";
+
+const SOL_MINT = new PublicKey("So11111111111111111111111111111111111111112");
+const USDC_MINT = new PublicKey("EPjFWdd5AufqSSqeM2qJPUFktULKVU5YLvBuYRr4X8LH");
+const NOW = 1_700_000_000;
+
+function makeUsdcBank(): Bank {
+  const config = new BankConfig(
+    new BigNumber(1),
+    new BigNumber(1),
+    new BigNumber(1),
+    new BigNumber(1),
+    new BigNumber(10_000_000e6),
+    new BigNumber(10_000_000e6),
+    RiskTier.Collateral,
+    new BigNumber(0),
+    OracleSetup.PythEma,
+    [PublicKey.default],
+    {
+      optimalUtilizationRate: new BigNumber(0.8),
+      plateauInterestRate: new BigNumber(0.1),
+      maxInterestRate: new BigNumber(1),
+      insuranceFeeFixedApr: new BigNumber(0),
+      insuranceIrFee: new BigNumber(0),
+      protocolFixedFeeApr: new BigNumber(0.01),
+      protocolIrFee: new BigNumber(0.05),
+    },
+    OperationalState.Operational
+  );
+  return new Bank(
+    PublicKey.unique(),
+    USDC_MINT,
+    6,
+    PublicKey.default,
+    new BigNumber(1),
+    new BigNumber(1),
+    PublicKey.default,
+    0,
+    0,
+    PublicKey.default,
+    0,
+    0,
+    new BigNumber(0),
+    PublicKey.default,
+    0,
+    0,
+    new BigNumber(0),
+    new BN(NOW),
+    config,
+    new BigNumber(5_000_000e6),
+    new BigNumber(4_000_000e6),
+    false,
+    false,
+    0,
+    PublicKey.default,
+    new BigNumber(0)
+  );
+}
+
+test("mock ExactOut quotes buy the requested output and bound the input by the slippage", async () => {
+  const provider = new MockSwapProvider([
+    { mint: SOL_MINT, price: 100, decimals: 9 },
+    { mint: USDC_MINT, price: 1, decimals: 6 },
+  ]);
+
+  const quote = await provider.quote({
+    inputMint: SOL_MINT,
+    outputMint: USDC_MINT,
+    amount: new BigNumber(1_000e6),
+    slippageBps: 50,
+    swapMode: SwapMode.ExactOut,
+  });
+
+  assert.equal(quote.outAmount.toFixed(), "1000000000");
+  assert.equal(quote.minOutAmount.toFixed(), "1000000000");
+  assert.equal(quote.inAmount.toFixed(), "10000000000");
+  assert.equal(quote.maxInAmount.toFixed(), "10050000000");
+});
+
+test("mock ExactIn quotes apply the price impact before the slippage", async () => {
+  const provider = new MockSwapProvider(
+    [
+      { mint: SOL_MINT, price: 100, decimals: 9 },
+      { mint: USDC_MINT, price: 1, decimals: 6 },
+    ],
+    { priceImpactBps: 100 }
+  );
+
+  const quote = await provider.quote({
+    inputMint: SOL_MINT,
+    outputMint: USDC_MINT,
+    amount: new BigNumber(1e9),
+    slippageBps: 100,
+  });
+
+  assert.equal(quote.outAmount.toFixed(), "99000000");
+  assert.equal(quote.minOutAmount.toFixed(), "98010000");
+});
+
+test("repay-all swaps cover the interest accrued until the transaction lands", async () => {
+  const bank = makeUsdcBank();
+  const balance = new Balance(true, bank.address, new BigNumber(0), new BigNumber(1_000_000e6), new BigNumber(0), NOW);
+  const provider = new MockSwapProvider([
+    { mint: SOL_MINT, price: 100, decimals: 9 },
+    { mint: USDC_MINT, price: 1, decimals: 6 },
+  ]);
+
+  const debtNow = balance.computeQuantityUi(bank.accrueInterest(NOW)).liabilities;
+  const swapOutAmount = computeRepayAllSwapAmount(bank, balance, NOW, REPAY_ALL_INTEREST_BUFFER_SEC);
+  const quote = await provider.quote({
+    inputMint: SOL_MINT,
+    outputMint: USDC_MINT,
+    amount: swapOutAmount.shiftedBy(6).integerValue(BigNumber.ROUND_UP),
+    slippageBps: 50,
+    swapMode: SwapMode.ExactOut,
+  });
+
+  const debtOnLanding = balance.computeQuantityUi(bank.accrueInterest(NOW + 30)).liabilities;
+  assert.ok(debtOnLanding.gt(debtNow));
+  assert.ok(quote.minOutAmount.shiftedBy(-6).gte(debtOnLanding));
+});
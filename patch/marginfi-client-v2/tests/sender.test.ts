@@ -0,0 +1,235 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  Commitment,
+  Connection,
+  Keypair,
+  PublicKey,
+  SignatureStatus,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { bs58 } from "@coral-xyz/anchor/dist/cjs/utils/bytes";
+import {
+  BlockEngineTransactionSender,
+  FanOutTransactionSender,
+  MockTransactionSender,
+  RebroadcastTransactionSender,
+  SendContext,
+  StandardTransactionSender,
+} from "../src/sender";
+import { JsonRpcPost } from "../src/bundle";
+import { ProcessTransactionError, ProcessTransactionErrorType } from "../src/errors";
+
+const MEMO_PROGRAM_ID = new PublicKey("MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr");
+const BLOCKHASH = "EETubP5AKHgjPAhzPAFcb8BAY1hMH639CWCFTqi3hq1k";
+const CONTEXT: SendContext = { blockhash: BLOCKHASH, lastValidBlockHeight: 1_000 };
+const FAST = { pollIntervalMs: 1, timeoutMs: 200 };
+
+function makeTransaction(): VersionedTransaction {
+  const payer = Keypair.generate();
+  const message = new TransactionMessage({
+    payerKey: payer.publicKey,
+    recentBlockhash: BLOCKHASH,
+    instructions: [new TransactionInstruction({ programId: MEMO_PROGRAM_ID, keys: [], data: Buffer.from("test") })],
+  }).compileToV0Message();
+  const transaction = new VersionedTransaction(message);
+  transaction.sign([payer]);
+  return transaction;
+}
+
+/**
+ * Connection answering signature status polls from `statuses` in order, repeating the last one.
+ */
+function makeConnection(statuses: (Partial<SignatureStatus> | null)[], opts: { blockHeight?: number } = {}) {
+  const calls = {
+    sendTransaction: [] as any[],
+    sendRawTransaction: 0,
+    simulateTransaction: [] as any[],
+    getSignatureStatus: 0,
+  };
+  const connection = {
+    commitment: "confirmed" as Commitment,
+    async sendTransaction(transaction: VersionedTransaction, options: any) {
+      calls.sendTransaction.push(options);
+      return bs58.encode(transaction.signatures[0]);
+    },
+    async sendRawTransaction() {
+      calls.sendRawTransaction++;
+      return "signature";
+    },
+    async simulateTransaction(_transaction: VersionedTransaction, options: any) {
+      calls.simulateTransaction.push(options);
+      return { value: { err: null, logs: [] } };
+    },
+    async getSignatureStatus() {
+      const status = statuses[Math.min(calls.getSignatureStatus, statuses.length - 1)];
+      calls.getSignatureStatus++;
+      return { context: { slot: 1 }, value: status };
+    },
+    async getBlockHeight() {
+      return opts.blockHeight ?? 0;
+    },
+  };
+  return { connection: connection as unknown as Connection, calls };
+}
+
+test("standard sender waits for the target commitment and forwards the preflight options", async () => {
+  const { connection, calls } = makeConnection([
+    null,
+    { confirmationStatus: "processed", err: null },
+    { confirmationStatus: "confirmed", err: null },
+    { confirmationStatus: "finalized", err: null },
+  ]);
+  const sender = new StandardTransactionSender(connection, FAST);
+
+  await sender.sendAndConfirm(makeTransaction(), {
+    ...CONTEXT,
+    commitment: "finalized",
+    skipPreflight: true,
+    preflightCommitment: "processed",
+    maxRetries: 3,
+  });
+
+  assert.equal(calls.getSignatureStatus, 4);
+  assert.equal(calls.sendTransaction.length, 1);
+  assert.equal(calls.sendTransaction[0].skipPreflight, true);
+  assert.equal(calls.sendTransaction[0].preflightCommitment, "processed");
+  assert.equal(calls.sendTransaction[0].maxRetries, 3);
+});
+
+test("deprecated commitment aliases wait for the level they stand for", async () => {
+  const { connection, calls } = makeConnection([
+    { confirmationStatus: "confirmed", err: null },
+    { confirmationStatus: "finalized", err: null },
+  ]);
+  const sender = new StandardTransactionSender(connection, FAST);
+
+  await sender.sendAndConfirm(makeTransaction(), { ...CONTEXT, commitment: "max" });
+
+  assert.equal(calls.getSignatureStatus, 2);
+});
+
+test("confirmation gives up once the timeout elapses", async () => {
+  const { connection } = makeConnection([{ confirmationStatus: "processed", err: null }]);
+  const sender = new StandardTransactionSender(connection, { pollIntervalMs: 1, timeoutMs: 20 });
+
+  await assert.rejects(
+    sender.sendAndConfirm(makeTransaction(), { ...CONTEXT, commitment: "confirmed" }),
+    (error: unknown) =>
+      error instanceof ProcessTransactionError && error.type === ProcessTransactionErrorType.TimeoutError
+  );
+});
+
+test("confirmation gives up once the blockhash expires", async () => {
+  const { connection, calls } = makeConnection([null], { blockHeight: CONTEXT.lastValidBlockHeight + 1 });
+  const sender = new StandardTransactionSender(connection, { pollIntervalMs: 1, timeoutMs: 60_000 });
+
+  await assert.rejects(
+    sender.sendAndConfirm(makeTransaction(), CONTEXT),
+    (error: unknown) =>
+      error instanceof ProcessTransactionError && error.type === ProcessTransactionErrorType.TimeoutError
+  );
+  assert.equal(calls.getSignatureStatus, 1);
+});
+
+test("failed transactions are reported without waiting for the timeout", async () => {
+  const { connection } = makeConnection([
+    { confirmationStatus: "processed", err: { InstructionError: [0, "Custom"] } },
+  ]);
+  const sender = new StandardTransactionSender(connection, { pollIntervalMs: 1, timeoutMs: 60_000 });
+
+  await assert.rejects(
+    sender.sendAndConfirm(makeTransaction(), CONTEXT),
+    (error: unknown) =>
+      error instanceof ProcessTransactionError && error.type === ProcessTransactionErrorType.FallthroughError
+  );
+});
+
+test("rebroadcast sender resends on every poll and skips its simulation with skipPreflight", async () => {
+  const { connection, calls } = makeConnection([null, null, { confirmationStatus: "confirmed", err: null }]);
+  const sender = new RebroadcastTransactionSender(connection, { ...FAST, simulate: true });
+
+  await sender.sendAndConfirm(makeTransaction(), { ...CONTEXT, skipPreflight: true });
+  assert.equal(calls.sendRawTransaction, 3);
+  assert.equal(calls.simulateTransaction.length, 0);
+
+  await sender.sendAndConfirm(makeTransaction(), { ...CONTEXT, preflightCommitment: "processed" });
+  assert.equal(calls.simulateTransaction.length, 1);
+  assert.equal(calls.simulateTransaction[0].commitment, "processed");
+});
+
+test("fan-out sender broadcasts to every endpoint and tolerates failing ones", async () => {
+  const { connection, calls } = makeConnection([null, { confirmationStatus: "confirmed", err: null }]);
+  const healthy = makeConnection([null]);
+  let failedAttempts = 0;
+  const failing = {
+    async sendRawTransaction() {
+      failedAttempts++;
+      throw Error("endpoint down");
+    },
+  } as unknown as Connection;
+  const sender = new FanOutTransactionSender(connection, [healthy.connection, failing], FAST);
+  const transaction = makeTransaction();
+
+  const signature = await sender.sendAndConfirm(transaction, CONTEXT);
+
+  assert.equal(signature, bs58.encode(transaction.signatures[0]));
+  assert.equal(healthy.calls.sendRawTransaction, 2);
+  assert.equal(failedAttempts, 2);
+  assert.equal(calls.sendRawTransaction, 0);
+});
+
+test("block engine sender retries while the engine is unreachable", async () => {
+  const { connection, calls } = makeConnection([{ confirmationStatus: "confirmed", err: null }]);
+  let attempts = 0;
+  const post: JsonRpcPost = async <T>() => {
+    attempts++;
+    if (attempts < 3) throw Error("socket hang up");
+    return { jsonrpc: "2.0" as const, id: 1, result: "accepted" as unknown as T };
+  };
+  const sender = new BlockEngineTransactionSender(connection, { ...FAST, submitRetryIntervalMs: 1, post });
+
+  const signature = await sender.sendAndConfirm(makeTransaction(), CONTEXT);
+
+  assert.equal(signature, "accepted");
+  assert.equal(attempts, 3);
+  assert.equal(calls.getSignatureStatus, 1);
+});
+
+test("block engine sender gives up on permanent errors instead of retrying until the timeout", async () => {
+  const { connection } = makeConnection([null]);
+  let attempts = 0;
+  const post: JsonRpcPost = async () => {
+    attempts++;
+    return { jsonrpc: "2.0", id: 1, error: { code: -32602, message: "transaction could not be decoded" } };
+  };
+  const sender = new BlockEngineTransactionSender(connection, {
+    pollIntervalMs: 1,
+    timeoutMs: 60_000,
+    submitRetryIntervalMs: 1,
+    post,
+  });
+
+  await assert.rejects(
+    sender.sendAndConfirm(makeTransaction(), CONTEXT),
+    (error: unknown) =>
+      error instanceof ProcessTransactionError && error.type === ProcessTransactionErrorType.FallthroughError
+  );
+  assert.equal(attempts, 1);
+});
+
+test("mock sender records transactions and fails on demand", async () => {
+  const sender = new MockTransactionSender();
+  const transaction = makeTransaction();
+
+  const signature = await sender.sendAndConfirm(transaction, CONTEXT);
+  assert.equal(signature, bs58.encode(transaction.signatures[0]));
+  assert.equal(sender.sent.length, 1);
+  assert.equal(sender.sent[0].context, CONTEXT);
+
+  sender.error = Error("rejected");
+  await assert.rejects(sender.sendAndConfirm(transaction, CONTEXT), /rejected/);
+  assert.equal(sender.sent.length, 1);
+});